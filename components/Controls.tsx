@@ -78,6 +78,43 @@ const SliderControl: React.FC<{
   );
 };
 
+// A row of buttons choosing one of `options`, with an optional note underneath
+function SegmentedControl<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+  children,
+}: {
+  label: string;
+  options: readonly T[];
+  value: T | undefined;
+  onChange: (value: T) => void;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-xs font-medium text-slate-300">{label}</label>
+      <div className="flex gap-2">
+        {options.map((option) => (
+          <button
+            key={option}
+            onClick={() => onChange(option)}
+            className={`flex-1 rounded-lg px-3 py-2 text-xs font-semibold uppercase tracking-wider transition-all ${
+              value === option
+                ? 'bg-gradient-to-r from-blue-500 to-cyan-500 text-white shadow-lg shadow-blue-500/30'
+                : 'bg-white/10 text-slate-300 hover:bg-white/20 hover:text-white'
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      {children}
+    </div>
+  );
+}
+
 const Controls: React.FC<ControlsProps> = ({ settings, onChange }) => {
   return (
     <div className="h-full w-full overflow-y-auto p-4 text-white scrollbar-thin scrollbar-thumb-white/20 scrollbar-track-transparent">
@@ -161,6 +198,18 @@ const Controls: React.FC<ControlsProps> = ({ settings, onChange }) => {
           step={0.05}
           onChange={(v) => onChange('opacity', v)}
         />
+        <SegmentedControl
+          label="Precipitation"
+          options={['snow', 'rain', 'mixed'] as const}
+          value={settings.precipitation ?? 'snow'}
+          onChange={(v) => onChange('precipitation', v)}
+        />
+        <SegmentedControl
+          label="Flake Shape"
+          options={['irregular', 'circle', 'crystal'] as const}
+          value={settings.shape ?? 'irregular'}
+          onChange={(v) => onChange('shape', v)}
+        />
         <div className="flex flex-col gap-2">
           <label className="text-xs font-medium text-slate-300">Snow Color</label>
           <div className="flex gap-2">
@@ -187,29 +236,27 @@ const Controls: React.FC<ControlsProps> = ({ settings, onChange }) => {
       </ControlGroup>
 
       <ControlGroup title="Renderer" icon={<Cpu size={16} />}>
-        <div className="flex flex-col gap-2">
-          <label className="text-xs font-medium text-slate-300">Rendering Engine</label>
-          <div className="flex gap-2">
-            {(['auto', 'webgl', 'canvas'] as const).map((mode) => (
-              <button
-                key={mode}
-                onClick={() => onChange('renderer', mode)}
-                className={`flex-1 rounded-lg px-3 py-2 text-xs font-semibold uppercase tracking-wider transition-all ${
-                  settings.renderer === mode
-                    ? 'bg-gradient-to-r from-blue-500 to-cyan-500 text-white shadow-lg shadow-blue-500/30'
-                    : 'bg-white/10 text-slate-300 hover:bg-white/20 hover:text-white'
-                }`}
-              >
-                {mode}
-              </button>
-            ))}
-          </div>
+        <SegmentedControl
+          label="Rendering Engine"
+          options={['auto', 'webgl', 'webgl-single', 'canvas', 'worker'] as const}
+          value={settings.renderer}
+          onChange={(v) => onChange('renderer', v)}
+        >
           <p className="text-xs text-slate-500">
             {settings.renderer === 'auto' && 'Automatically selects the best renderer'}
             {settings.renderer === 'webgl' && 'GPU-accelerated rendering (faster)'}
+            {settings.renderer === 'webgl-single' && 'One WebGL context for all layers, blur drawn in the shader'}
             {settings.renderer === 'canvas' && 'CPU-based Canvas 2D rendering'}
+            {settings.renderer === 'worker' && 'Simulation and drawing in a web worker, off the main thread'}
           </p>
-        </div>
+        </SegmentedControl>
+
+        <SegmentedControl
+          label="Quality"
+          options={['auto', 'low', 'medium', 'high'] as const}
+          value={settings.quality ?? 'auto'}
+          onChange={(v) => onChange('quality', v)}
+        />
       </ControlGroup>
     </div>
   );
@@ -1,4 +1,12 @@
 import { Particle } from '../types';
+import { SnowGround, smoothedHeight } from './accumulation';
+import { ColorSwatch, RGBA, parseColor, swatchFor } from './color';
+import { CRYSTAL_GLSL } from './crystal';
+import { flakeVariant, variantSeed } from './flakeCache';
+import { SPRITE_BOX, SpriteSheet, spriteFor } from './sprites';
+import { RAIN_OPACITY, RainStreak, isRainDrop, rainStreak } from './rain';
+import { Diagnostics, consoleDiagnostics } from './diagnostics';
+import { FlakeShape, Precipitation } from '../types';
 
 // Vertex shader - positions points and passes data to fragment shader
 const VERTEX_SHADER = `
@@ -7,25 +15,39 @@ attribute float a_size;
 attribute float a_opacity;
 attribute float a_seed;
 attribute float a_rotation;
+attribute float a_shape; // See SHAPE_CODES
+attribute float a_blur; // Depth-of-field blur radius in CSS pixels (0 = sharp)
+attribute vec3 a_color; // Flake color (its alpha is folded into a_opacity)
 
-uniform vec2 u_resolution;
+uniform vec2 u_resolution; // Drawing buffer size in device pixels
+uniform float u_pixelRatio; // Device pixels per CSS pixel
 
 varying float v_opacity;
 varying float v_seed;
 varying float v_rotation;
 varying float v_size;
+varying float v_shape;
+varying float v_soft; // Blur radius relative to the flake size
+varying float v_scale; // Point sprite size relative to the flake size (> 1 when padded for blur)
+varying vec3 v_color;
 
 void main() {
-  // Convert pixel coordinates to clip space (-1 to 1)
-  vec2 clipSpace = (a_position / u_resolution) * 2.0 - 1.0;
+  // Convert CSS pixel coordinates to device pixels, then to clip space (-1 to 1)
+  vec2 clipSpace = (a_position * u_pixelRatio / u_resolution) * 2.0 - 1.0;
   clipSpace.y *= -1.0; // Flip Y axis
   
   gl_Position = vec4(clipSpace, 0.0, 1.0);
-  gl_PointSize = a_size;
+  // Pad blurred flakes so the soft edge isn't clipped by the point sprite
+  float padded = a_size + a_blur * 2.0;
+  gl_PointSize = padded * u_pixelRatio;
+  v_scale = padded / a_size;
+  v_soft = a_blur / a_size;
+  v_shape = a_shape;
   v_opacity = a_opacity;
+  v_color = a_color;
   v_seed = a_seed;
   v_rotation = a_rotation;
-  v_size = a_size;
+  v_size = a_size; // CSS pixels, so shape detail thresholds don't depend on the display density
 }
 `;
 
@@ -37,15 +59,19 @@ const FRAGMENT_SHADER = `
   precision mediump float;
 #endif
 
-uniform vec3 u_color;
 uniform float u_roughness;
-uniform float u_layer; // 0 = back (dots), 1 = mid, 2 = front (polygons)
-uniform float u_isMobile; // 1.0 for mobile, 0.0 for desktop
+uniform float u_simpleShapes; // 1.0 draws irregular flakes as bumpy discs instead of polygons
+uniform sampler2D u_sprites; // Sprite atlas (see SpriteSheet)
+uniform float u_spriteColumns; // Atlas cells per row and column
 
 varying float v_opacity;
 varying float v_seed;
 varying float v_rotation;
 varying float v_size;
+varying float v_shape; // 0 = dot, 1 = irregular, 2 = circle, 3 = crystal, 4 = rain, 5 + n = sprite in atlas cell n
+varying float v_soft;
+varying float v_scale;
+varying vec3 v_color;
 
 // Hash function matching the randomness pattern
 float hash(float n) {
@@ -59,7 +85,7 @@ vec2 rotate2D(vec2 p, float angle) {
   return vec2(p.x * c - p.y * s, p.x * s + p.y * c);
 }
 
-// Get vertex position for polygon (matching Canvas createIrregularShape logic)
+// Get vertex position for polygon (matching the Canvas outlines, see traceIrregular in flakeCache)
 vec2 getVertex(int i, int numPoints, float seed) {
   float fi = float(i);
   float fn = float(numPoints);
@@ -116,24 +142,87 @@ float distToPolygonEdge(vec2 p, int numPoints, float seed) {
   
   return minDist;
 }
-
+${CRYSTAL_GLSL}
 void main() {
-  vec2 coord = gl_PointCoord - vec2(0.5);
+  vec2 coord = (gl_PointCoord - vec2(0.5)) * v_scale;
   float dist = length(coord);
   
-  // Back layer (u_layer == 0): Always use smooth dots for performance
+  // Sprites: sample the flake's atlas cell, rotated back into the flake's frame (the inverse of the
+  // Canvas ctx.rotate). Blur picks a coarser mipmap level.
+  if (v_shape > 4.5) {
+    vec2 local = rotate2D(coord, -v_rotation) + vec2(0.5);
+    if (local.x < 0.0 || local.y < 0.0 || local.x > 1.0 || local.y > 1.0) discard;
+    float cell = floor(v_shape - 5.0 + 0.5);
+    vec2 origin = vec2(mod(cell, u_spriteColumns), floor(cell / u_spriteColumns));
+    vec4 texel = texture2D(u_sprites, (origin + local) / u_spriteColumns, log2(1.0 + v_soft * v_size));
+    if (texel.a < 0.01) discard;
+    gl_FragColor = vec4(texel.rgb, texel.a * v_opacity);
+    return;
+  }
+  
+  // Rain: a capsule along the sprite's rotated y axis, as long as the sprite. The seed slot carries
+  // its half width relative to the sprite size (see writeLayer).
+  if (v_shape > 3.5) {
+    float halfWidth = v_seed;
+    vec2 local = rotate2D(coord, -v_rotation);
+    float d = segmentDistance(local, vec2(0.0, halfWidth - 0.5), vec2(0.0, 0.5 - halfWidth)) - halfWidth;
+    float edge = max(v_soft, 0.75 / v_size);
+    float alpha = 1.0 - smoothstep(-edge, edge, d);
+    if (alpha < 0.01) discard;
+    gl_FragColor = vec4(v_color, alpha * v_opacity);
+    return;
+  }
+  
+  // Dot layers: Always use smooth dots for performance
   // These are far away, so detail isn't visible anyway
-  if (u_layer < 0.5) {
+  if (v_shape < 0.5) {
     // Soft circular shape with gentle falloff
     float alpha = 1.0 - smoothstep(0.25, 0.5, dist);
     if (alpha < 0.01) discard;
-    gl_FragColor = vec4(u_color, alpha * v_opacity);
+    gl_FragColor = vec4(v_color, alpha * v_opacity);
+    return;
+  }
+  
+  // Crystals: signed distance to the six-fold dendrite, arms 0.45 of the sprite long (matching
+  // drawCrystal's arm length relative to the polygon radius). Blur widens the edge falloff.
+  // The point is rotated back into the flake's frame, the inverse of the Canvas ctx.rotate.
+  if (v_shape > 2.5 && v_size >= 6.0) {
+    float armLength = 0.45;
+    float d = crystalDistance(rotate2D(coord, -v_rotation) / armLength, v_seed) * armLength;
+    float edge = max(v_soft, 0.75 / v_size);
+    float alpha = 1.0 - smoothstep(-edge, edge, d);
+    if (alpha < 0.01) discard;
+    gl_FragColor = vec4(v_color, alpha * v_opacity);
+    return;
+  }
+  
+  // Depth of field (single-context mode): out-of-focus flakes become soft, slightly irregular
+  // discs (round for the circle shape). Replaces the CSS blur the multi-canvas mode applies.
+  if (v_soft > 0.0) {
+    float angle = atan(coord.y, coord.x);
+    float irregularity = v_shape < 1.5
+      ? sin(angle * 5.0 + v_seed) * 0.08 * u_roughness + sin(angle * 3.0 + v_seed * 0.7) * 0.06 * u_roughness
+      : 0.0;
+    
+    float threshold = 0.35 + irregularity;
+    float alpha = 1.0 - smoothstep(threshold - v_soft, threshold + v_soft, dist);
+    
+    if (alpha < 0.01) discard;
+    gl_FragColor = vec4(v_color, alpha * v_opacity);
+    return;
+  }
+  
+  // Circles, and crystals too small for their arms to show
+  if (v_shape > 1.5) {
+    float alpha = 1.0 - smoothstep(0.3, 0.5, dist);
+    if (alpha < 0.01) discard;
+    gl_FragColor = vec4(v_color, alpha * v_opacity);
     return;
   }
   
-  // Mobile devices: use simpler irregular shapes (distorted circles)
-  // This avoids the complex polygon ray-casting that fails on some mobile GPUs
-  if (u_isMobile > 0.5) {
+  // Simple shapes (lower quality levels): irregular shapes as distorted circles
+  // This avoids the complex polygon ray-casting, which is slow or fails on some mobile GPUs
+  if (u_simpleShapes > 0.5) {
     // Create irregular shape by varying the radius based on angle
     float angle = atan(coord.y, coord.x);
     float irregularity = 0.0;
@@ -147,20 +236,20 @@ void main() {
     float alpha = 1.0 - smoothstep(threshold - 0.05, threshold + 0.05, dist);
     
     if (alpha < 0.01) discard;
-    gl_FragColor = vec4(u_color, alpha * v_opacity);
+    gl_FragColor = vec4(v_color, alpha * v_opacity);
     return;
   }
   
-  // Desktop: Use polygon shapes for visible detail
+  // Full quality: Use polygon shapes for visible detail
   // But still use circles for very small particles
   if (v_size < 6.0) {
     float alpha = 1.0 - smoothstep(0.3, 0.5, dist);
     if (alpha < 0.01) discard;
-    gl_FragColor = vec4(u_color, alpha * v_opacity);
+    gl_FragColor = vec4(v_color, alpha * v_opacity);
     return;
   }
   
-  // Polygon rendering for larger mid/front particles (desktop only)
+  // Polygon rendering for larger mid/front particles (full quality only)
   vec2 rotatedCoord = rotate2D(coord, v_rotation);
   
   int numPoints = 5 + int(hash(v_seed * 3.7) * 4.0);
@@ -174,34 +263,91 @@ void main() {
   float edgeDist = distToPolygonEdge(rotatedCoord, numPoints, v_seed);
   float alpha = smoothstep(0.0, 0.04, edgeDist);
   
-  gl_FragColor = vec4(u_color, alpha * v_opacity);
+  gl_FragColor = vec4(v_color, alpha * v_opacity);
 }
 `;
 
-export interface WebGLState {
-  gl: WebGLRenderingContext;
+// Snowbank shaders - a flat-colored triangle strip along the bottom edge
+const GROUND_VERTEX_SHADER = `
+attribute vec2 a_position;
+
+uniform vec2 u_resolution;
+uniform float u_pixelRatio;
+
+void main() {
+  vec2 clipSpace = (a_position * u_pixelRatio / u_resolution) * 2.0 - 1.0;
+  clipSpace.y *= -1.0;
+  gl_Position = vec4(clipSpace, 0.0, 1.0);
+}
+`;
+
+const GROUND_FRAGMENT_SHADER = `
+precision mediump float;
+
+uniform vec3 u_color;
+uniform float u_opacity;
+
+void main() {
+  gl_FragColor = vec4(u_color, u_opacity);
+}
+`;
+
+interface GroundState {
   program: WebGLProgram;
-  positionBuffer: WebGLBuffer;
-  sizeBuffer: WebGLBuffer;
-  opacityBuffer: WebGLBuffer;
-  seedBuffer: WebGLBuffer;
-  rotationBuffer: WebGLBuffer;
-  isMobile: boolean;
+  buffer: WebGLBuffer;
+  vertices: Float32Array;
   locations: {
     position: number;
-    size: number;
-    opacity: number;
-    seed: number;
-    rotation: number;
     resolution: WebGLUniformLocation;
+    pixelRatio: WebGLUniformLocation;
     color: WebGLUniformLocation;
+    opacity: WebGLUniformLocation;
+  };
+}
+
+type VertexAttribute = 'position' | 'size' | 'opacity' | 'seed' | 'rotation' | 'shape' | 'blur' | 'color';
+
+// Interleaved per-flake vertex layout: [x, y, size, opacity, seed, rotation, shape, blur, r, g, b]
+const VERTEX_LAYOUT: { name: VertexAttribute; components: number; offset: number }[] = [
+  { name: 'position', components: 2, offset: 0 },
+  { name: 'size', components: 1, offset: 2 },
+  { name: 'opacity', components: 1, offset: 3 },
+  { name: 'seed', components: 1, offset: 4 },
+  { name: 'rotation', components: 1, offset: 5 },
+  { name: 'shape', components: 1, offset: 6 },
+  { name: 'blur', components: 1, offset: 7 },
+  { name: 'color', components: 3, offset: 8 },
+];
+const VERTEX_FLOATS = 11;
+const FLOAT_BYTES = 4;
+const VERTEX_STRIDE = VERTEX_FLOATS * FLOAT_BYTES;
+
+// Smallest vertex storage allocated, in particles
+const MIN_VERTEX_CAPACITY = 256;
+
+export interface WebGLState {
+  gl: WebGLRenderingContext;
+  program: WebGLProgram;
+  vertexBuffer: WebGLBuffer; // Persistent GPU buffer sized to match `vertices`
+  vertices: Float32Array; // Interleaved CPU-side storage, grown on demand and reused every frame
+  upload: Float32Array; // Cached view of the part of `vertices` uploaded last frame
+  color: { source: string; rgba: RGBA }; // Last parsed snowbank color
+  simpleShapes: boolean; // Cheaper shapes and smaller sprites, set per frame from the quality level
+  ground: GroundState | false | null; // Created on first use by renderGroundWebGL (false if that failed)
+  sprites: SpriteSheet | null; // Sheet uploaded to `spriteTexture` (see bindSpriteSheet)
+  spriteTexture: WebGLTexture | null;
+  diagnostics: Diagnostics; // Where shader failures of programs created later (the ground) are reported
+  locations: Record<VertexAttribute, number> & {
+    resolution: WebGLUniformLocation;
+    pixelRatio: WebGLUniformLocation;
     roughness: WebGLUniformLocation;
-    layer: WebGLUniformLocation;
-    isMobile: WebGLUniformLocation;
+    simpleShapes: WebGLUniformLocation;
+    sprites: WebGLUniformLocation | null;
+    spriteColumns: WebGLUniformLocation | null;
   };
 }
 
-function compileShader(gl: WebGLRenderingContext, type: number, source: string): WebGLShader | null {
+function compileShader(gl: WebGLRenderingContext, type: number, source: string, diagnostics: Diagnostics): WebGLShader | null {
   const shader = gl.createShader(type);
   if (!shader) return null;
   
@@ -209,7 +355,7 @@ function compileShader(gl: WebGLRenderingContext, type: number, source: string):
   gl.compileShader(shader);
   
   if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-    console.error('Shader compile error:', gl.getShaderInfoLog(shader));
+    diagnostics.error({ code: 'shader-compile', message: `Shader compile error: ${gl.getShaderInfoLog(shader)}` });
     gl.deleteShader(shader);
     return null;
   }
@@ -217,9 +363,14 @@ function compileShader(gl: WebGLRenderingContext, type: number, source: string):
   return shader;
 }
 
-function createProgram(gl: WebGLRenderingContext): WebGLProgram | null {
-  const vertexShader = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
-  const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+function createProgram(
+  gl: WebGLRenderingContext,
+  diagnostics: Diagnostics,
+  vertexSource = VERTEX_SHADER,
+  fragmentSource = FRAGMENT_SHADER
+): WebGLProgram | null {
+  const vertexShader = compileShader(gl, gl.VERTEX_SHADER, vertexSource, diagnostics);
+  const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource, diagnostics);
   
   if (!vertexShader || !fragmentShader) return null;
   
@@ -231,7 +382,7 @@ function createProgram(gl: WebGLRenderingContext): WebGLProgram | null {
   gl.linkProgram(program);
   
   if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
-    console.error('Program link error:', gl.getProgramInfoLog(program));
+    diagnostics.error({ code: 'program-link', message: `Program link error: ${gl.getProgramInfoLog(program)}` });
     gl.deleteProgram(program);
     return null;
   }
@@ -239,22 +390,14 @@ function createProgram(gl: WebGLRenderingContext): WebGLProgram | null {
   return program;
 }
 
-// Detect if running on a mobile device
-function detectMobile(): boolean {
-  if (typeof window === 'undefined' || typeof navigator === 'undefined') return false;
-  
-  // Check for touch capability and mobile user agent
-  const hasTouchScreen = 'ontouchstart' in window || navigator.maxTouchPoints > 0;
-  const mobileUA = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
-  
-  // Also check screen size as a fallback
-  const isSmallScreen = window.innerWidth <= 768;
-  
-  return hasTouchScreen && (mobileUA || isSmallScreen);
-}
-
-export function initWebGL(canvas: HTMLCanvasElement): WebGLState | null {
-  const gl = canvas.getContext('webgl', { 
+/**
+ * Create the WebGL state for a canvas. Returns null when WebGL is unavailable or the shaders fail
+ * (shader failures are reported to `diagnostics`). Also used to rebuild the state after the
+ * canvas's context was restored.
+ */
+export function initWebGL(canvas: HTMLCanvasElement | OffscreenCanvas, diagnostics: Diagnostics = consoleDiagnostics): WebGLState | null {
+  // A canvas transferred to a worker hands out the same context (the cast only picks an overload)
+  const gl = (canvas as HTMLCanvasElement).getContext('webgl', { 
     alpha: true, 
     premultipliedAlpha: false,
     antialias: true 
@@ -262,7 +405,7 @@ export function initWebGL(canvas: HTMLCanvasElement): WebGLState | null {
   
   if (!gl) return null;
   
-  const program = createProgram(gl);
+  const program = createProgram(gl, diagnostics);
   if (!program) return null;
   
   // Get attribute locations
@@ -271,85 +414,231 @@ export function initWebGL(canvas: HTMLCanvasElement): WebGLState | null {
   const opacityLoc = gl.getAttribLocation(program, 'a_opacity');
   const seedLoc = gl.getAttribLocation(program, 'a_seed');
   const rotationLoc = gl.getAttribLocation(program, 'a_rotation');
+  const shapeLoc = gl.getAttribLocation(program, 'a_shape');
+  const blurLoc = gl.getAttribLocation(program, 'a_blur');
+  const colorAttribLoc = gl.getAttribLocation(program, 'a_color');
   
   // Get uniform locations
   const resolutionLoc = gl.getUniformLocation(program, 'u_resolution');
-  const colorLoc = gl.getUniformLocation(program, 'u_color');
+  const pixelRatioLoc = gl.getUniformLocation(program, 'u_pixelRatio');
   const roughnessLoc = gl.getUniformLocation(program, 'u_roughness');
-  const layerLoc = gl.getUniformLocation(program, 'u_layer');
-  const isMobileLoc = gl.getUniformLocation(program, 'u_isMobile');
+  const simpleShapesLoc = gl.getUniformLocation(program, 'u_simpleShapes');
+  const spritesLoc = gl.getUniformLocation(program, 'u_sprites');
+  const spriteColumnsLoc = gl.getUniformLocation(program, 'u_spriteColumns');
   
-  if (!resolutionLoc || !colorLoc || !roughnessLoc || !layerLoc || !isMobileLoc) return null;
+  if (!resolutionLoc || !pixelRatioLoc || !roughnessLoc || !simpleShapesLoc) return null;
   
-  // Create buffers
-  const positionBuffer = gl.createBuffer();
-  const sizeBuffer = gl.createBuffer();
-  const opacityBuffer = gl.createBuffer();
-  const seedBuffer = gl.createBuffer();
-  const rotationBuffer = gl.createBuffer();
-  
-  if (!positionBuffer || !sizeBuffer || !opacityBuffer || !seedBuffer || !rotationBuffer) return null;
-  
-  // Detect mobile once during initialization
-  const isMobile = detectMobile();
+  // Create the vertex buffer; storage is allocated on the first draw
+  const vertexBuffer = gl.createBuffer();
+  if (!vertexBuffer) return null;
+  const vertices = new Float32Array(0);
   
   return {
     gl,
     program,
-    positionBuffer,
-    sizeBuffer,
-    opacityBuffer,
-    seedBuffer,
-    rotationBuffer,
-    isMobile,
+    vertexBuffer,
+    vertices,
+    upload: vertices,
+    color: { source: '', rgba: parseColor('#ffffff') },
+    simpleShapes: false,
+    ground: null,
+    sprites: null,
+    spriteTexture: null,
+    diagnostics,
     locations: {
       position: positionLoc,
       size: sizeLoc,
       opacity: opacityLoc,
       seed: seedLoc,
       rotation: rotationLoc,
+      shape: shapeLoc,
+      blur: blurLoc,
+      color: colorAttribLoc,
       resolution: resolutionLoc,
-      color: colorLoc,
+      pixelRatio: pixelRatioLoc,
       roughness: roughnessLoc,
-      layer: layerLoc,
-      isMobile: isMobileLoc,
+      simpleShapes: simpleShapesLoc,
+      sprites: spritesLoc,
+      spriteColumns: spriteColumnsLoc,
     },
   };
 }
 
-function hexToRgb(hex: string): [number, number, number] {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  if (result) {
-    return [
-      parseInt(result[1], 16) / 255,
-      parseInt(result[2], 16) / 255,
-      parseInt(result[3], 16) / 255,
-    ];
+// Device pixels per CSS pixel, derived from the drawing buffer the caller sized for the container
+function getPixelRatio(gl: WebGLRenderingContext, width: number): number {
+  return width > 0 ? gl.drawingBufferWidth / width : 1;
+}
+
+// Parsed snowbank color, re-parsed only when the `color` string changes
+function getColor(state: WebGLState, color: string): RGBA {
+  if (state.color.source !== color) {
+    state.color = { source: color, rgba: parseColor(color) };
   }
-  return [1, 1, 1];
+  return state.color.rgba;
 }
 
-export function renderWebGL(
+/** How the fragment shader draws a flake: the layer's 'dot' shape or the `shape` prop */
+export const SHAPE_CODES: Record<'dot' | FlakeShape | 'rain' | 'sprite', number> = {
+  dot: 0,
+  irregular: 1,
+  circle: 2,
+  crystal: 3,
+  rain: 4, // Written per particle for rain drops (see isRainDrop), whatever the layer's shape
+  sprite: 5, // Drawn from the sheet bound with bindSpriteSheet; each flake gets 5 + its atlas cell
+};
+
+/** A group of particles drawn with shared layer settings */
+export interface WebGLLayer {
+  particles: Particle[];
+  layerOpacity: number;
+  shape: number; // One of SHAPE_CODES
+  precipitation: Precipitation; // Rain drops in the layer are drawn as streaks
+  blur: number; // Depth-of-field blur radius in CSS pixels, drawn by the shader (0 = sharp)
+}
+
+// Scratch streak reused for every rain drop
+const streak: RainStreak = { x: 0, y: 0, dx: 0, dy: 0, width: 0 };
+
+// Fill one interleaved vertex per particle starting at vertex `offset`; returns the next free vertex
+function writeLayer(
   state: WebGLState,
-  particles: Particle[],
+  layer: WebGLLayer,
+  offset: number,
+  palette: ColorSwatch[],
+  globalOpacity: number,
+  alpha: number
+): number {
+  const { vertices, simpleShapes } = state;
+  const { particles, layerOpacity, shape, precipitation, blur } = layer;
+  const sheet = shape === SHAPE_CODES.sprite ? state.sprites : null;
+
+  for (let n = 0; n < particles.length; n++) {
+    const p = particles[n];
+    const base = (offset + n) * VERTEX_FLOATS;
+
+    vertices[base] = p.prevX + (p.x - p.prevX) * alpha;
+    vertices[base + 1] = p.prevY + (p.y - p.prevY) * alpha;
+    // Use stable shapeSeed for consistent shape. Crystals come from the Canvas cache's variants.
+    vertices[base + 4] = shape === SHAPE_CODES.crystal ? variantSeed(flakeVariant(p)) : p.shapeSeed;
+    // Match Canvas rotation: Math.sin(p.wobble)
+    vertices[base + 5] = Math.sin(p.wobble);
+    vertices[base + 7] = blur;
+
+    // Rain drops: a point sprite covering the streak, rotated to its direction
+    if (isRainDrop(p, precipitation)) {
+      const { rgba } = swatchFor(palette, p);
+      const { x, y, dx, dy, width } = rainStreak(p, alpha, streak);
+      const size = Math.hypot(dx, dy) + width;
+      vertices[base] = x;
+      vertices[base + 1] = y;
+      vertices[base + 2] = size;
+      vertices[base + 3] = Math.min(1.0, p.opacity * layerOpacity * globalOpacity * RAIN_OPACITY) * rgba.a;
+      vertices[base + 4] = width / 2 / size;
+      vertices[base + 5] = Math.atan2(-dx, dy);
+      vertices[base + 6] = SHAPE_CODES.rain;
+      vertices[base + 8] = rgba.r;
+      vertices[base + 9] = rgba.g;
+      vertices[base + 10] = rgba.b;
+      continue;
+    }
+
+    // Sprites are drawn at the Canvas size, in their own colors (splash droplets stay plain discs)
+    if (sheet && p.splash === undefined) {
+      const frame = spriteFor(sheet, p);
+      vertices[base + 2] = p.radius * SPRITE_BOX * frame.scale;
+      vertices[base + 3] = Math.min(1.0, p.opacity * layerOpacity * globalOpacity);
+      vertices[base + 6] = SHAPE_CODES.sprite + frame.cell;
+      vertices[base + 8] = 1;
+      vertices[base + 9] = 1;
+      vertices[base + 10] = 1;
+      continue;
+    }
+
+    const { rgba } = swatchFor(palette, p);
+
+    // Size calculation: WebGL point sprites need to be scaled to match Canvas pixel size
+    // With simple shapes, use smaller multipliers (fewer fragments to shade)
+    // Canvas draws at actual radius, WebGL needs point sprite size
+    if (simpleShapes) {
+      // Simple shapes: more conservative sizing to match Canvas appearance
+      const sizeMultiplier = p.radius < 1.0 ? 3.0 : (p.radius < 1.5 ? 2.5 : 2.0);
+      vertices[base + 2] = Math.max(2, p.radius * sizeMultiplier);
+    } else {
+      // Full quality: slightly larger for the polygon detail to show
+      const sizeMultiplier = p.radius < 1.0 ? 5.5 : (p.radius < 1.5 ? 4.5 : 3.5);
+      vertices[base + 2] = Math.max(5, p.radius * sizeMultiplier);
+    }
+
+    // Opacity boost for visibility
+    // Simple shapes need less boost since particles are smaller and don't overlap as much
+    const opacityBoost = simpleShapes
+      ? (p.radius < 1.0 ? 1.5 : (p.radius < 1.5 ? 1.3 : 1.1))
+      : (p.radius < 1.0 ? 2.2 : (p.radius < 1.5 ? 1.8 : 1.4));
+    vertices[base + 3] = Math.min(1.0, p.opacity * layerOpacity * globalOpacity * opacityBoost) * rgba.a;
+
+    // Splash droplets are round whatever the layer's shape
+    vertices[base + 6] = p.splash === undefined ? shape : SHAPE_CODES.circle;
+    vertices[base + 8] = rgba.r;
+    vertices[base + 9] = rgba.g;
+    vertices[base + 10] = rgba.b;
+  }
+
+  return offset + particles.length;
+}
+
+// Make room for `count` vertices. Storage only grows (to the next power of two), so a steady
+// particle count never reallocates.
+function ensureCapacity(state: WebGLState, count: number): void {
+  const { gl } = state;
+  if (count * VERTEX_FLOATS <= state.vertices.length) return;
+
+  let capacity = MIN_VERTEX_CAPACITY;
+  while (capacity < count) capacity *= 2;
+
+  state.vertices = new Float32Array(capacity * VERTEX_FLOATS);
+  gl.bindBuffer(gl.ARRAY_BUFFER, state.vertexBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, state.vertices.byteLength, gl.DYNAMIC_DRAW);
+}
+
+// View of the vertices in use. Cached so an unchanged particle count doesn't create a new view each frame.
+function uploadView(state: WebGLState, count: number): Float32Array {
+  const length = count * VERTEX_FLOATS;
+  if (state.upload.buffer !== state.vertices.buffer || state.upload.length !== length) {
+    state.upload = state.vertices.subarray(0, length);
+  }
+  return state.upload;
+}
+
+/**
+ * Draw several layers with one upload and one draw call, in order (back to front).
+ * Pass clear = false to draw on top of what is already in the drawing buffer.
+ */
+export function renderWebGLLayers(
+  state: WebGLState,
+  layers: WebGLLayer[],
   width: number,
   height: number,
-  color: string,
+  palette: ColorSwatch[], // Flake colors (see resolvePalette)
   globalOpacity: number,
-  layerOpacity: number,
   roughness: number,
-  layer: number // 0 = back, 1 = mid, 2 = front
+  alpha = 1, // Interpolation factor between the previous and current simulation step
+  clear = true
 ): void {
   const { gl, program, locations } = state;
   
-  if (particles.length === 0) return;
-  
-  // Set viewport
-  gl.viewport(0, 0, width, height);
+  // Set viewport to the full drawing buffer (device pixels; width/height are CSS pixels)
+  const pixelRatio = getPixelRatio(gl, width);
+  gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
   
   // Clear with transparent
-  gl.clearColor(0, 0, 0, 0);
-  gl.clear(gl.COLOR_BUFFER_BIT);
+  if (clear) {
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+  }
+  
+  let count = 0;
+  for (let l = 0; l < layers.length; l++) count += layers[l].particles.length;
+  if (count === 0) return;
   
   // Enable blending for transparency
   gl.enable(gl.BLEND);
@@ -359,83 +648,100 @@ export function renderWebGL(
   gl.useProgram(program);
   
   // Set uniforms
-  gl.uniform2f(locations.resolution, width, height);
-  const [r, g, b] = hexToRgb(color);
-  gl.uniform3f(locations.color, r, g, b);
+  gl.uniform2f(locations.resolution, gl.drawingBufferWidth, gl.drawingBufferHeight);
+  gl.uniform1f(locations.pixelRatio, pixelRatio);
   gl.uniform1f(locations.roughness, roughness);
-  gl.uniform1f(locations.layer, layer);
-  gl.uniform1f(locations.isMobile, state.isMobile ? 1.0 : 0.0);
-  
-  // Prepare particle data
-  const positions = new Float32Array(particles.length * 2);
-  const sizes = new Float32Array(particles.length);
-  const opacities = new Float32Array(particles.length);
-  const seeds = new Float32Array(particles.length);
-  const rotations = new Float32Array(particles.length);
-  
-  for (let i = 0; i < particles.length; i++) {
-    const p = particles[i];
-    positions[i * 2] = p.x;
-    positions[i * 2 + 1] = p.y;
-    
-    // Size calculation: WebGL point sprites need to be scaled to match Canvas pixel size
-    // On mobile, use smaller multipliers to avoid overcrowding
-    // Canvas draws at actual radius, WebGL needs point sprite size
-    if (state.isMobile) {
-      // Mobile: more conservative sizing to match Canvas appearance
-      const sizeMultiplier = p.radius < 1.0 ? 3.0 : (p.radius < 1.5 ? 2.5 : 2.0);
-      sizes[i] = Math.max(2, p.radius * sizeMultiplier);
-    } else {
-      // Desktop: slightly larger for visibility on bigger screens
-      const sizeMultiplier = p.radius < 1.0 ? 5.5 : (p.radius < 1.5 ? 4.5 : 3.5);
-      sizes[i] = Math.max(5, p.radius * sizeMultiplier);
-    }
-    
-    // Opacity boost for visibility
-    // Mobile needs less boost since particles are smaller and don't overlap as much
-    const opacityBoost = state.isMobile 
-      ? (p.radius < 1.0 ? 1.5 : (p.radius < 1.5 ? 1.3 : 1.1))
-      : (p.radius < 1.0 ? 2.2 : (p.radius < 1.5 ? 1.8 : 1.4));
-    opacities[i] = Math.min(1.0, p.opacity * layerOpacity * globalOpacity * opacityBoost);
-    
-    // Use stable shapeSeed for consistent shape
-    seeds[i] = p.shapeSeed;
-    // Match Canvas rotation: Math.sin(p.wobble)
-    rotations[i] = Math.sin(p.wobble);
+  gl.uniform1f(locations.simpleShapes, state.simpleShapes ? 1.0 : 0.0);
+  if (state.sprites) {
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, state.spriteTexture);
+    gl.uniform1i(locations.sprites, 0);
+    gl.uniform1f(locations.spriteColumns, state.sprites.columns);
   }
   
-  // Upload position data
-  gl.bindBuffer(gl.ARRAY_BUFFER, state.positionBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, positions, gl.DYNAMIC_DRAW);
-  gl.enableVertexAttribArray(locations.position);
-  gl.vertexAttribPointer(locations.position, 2, gl.FLOAT, false, 0, 0);
-  
-  // Upload size data
-  gl.bindBuffer(gl.ARRAY_BUFFER, state.sizeBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, sizes, gl.DYNAMIC_DRAW);
-  gl.enableVertexAttribArray(locations.size);
-  gl.vertexAttribPointer(locations.size, 1, gl.FLOAT, false, 0, 0);
-  
-  // Upload opacity data
-  gl.bindBuffer(gl.ARRAY_BUFFER, state.opacityBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, opacities, gl.DYNAMIC_DRAW);
-  gl.enableVertexAttribArray(locations.opacity);
-  gl.vertexAttribPointer(locations.opacity, 1, gl.FLOAT, false, 0, 0);
-  
-  // Upload seed data for shape variation
-  gl.bindBuffer(gl.ARRAY_BUFFER, state.seedBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, seeds, gl.DYNAMIC_DRAW);
-  gl.enableVertexAttribArray(locations.seed);
-  gl.vertexAttribPointer(locations.seed, 1, gl.FLOAT, false, 0, 0);
-  
-  // Upload rotation data (matching Canvas: Math.sin(wobble))
-  gl.bindBuffer(gl.ARRAY_BUFFER, state.rotationBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, rotations, gl.DYNAMIC_DRAW);
-  gl.enableVertexAttribArray(locations.rotation);
-  gl.vertexAttribPointer(locations.rotation, 1, gl.FLOAT, false, 0, 0);
+  // Fill the interleaved vertex storage in place
+  ensureCapacity(state, count);
+  let offset = 0;
+  for (let l = 0; l < layers.length; l++) {
+    offset = writeLayer(state, layers[l], offset, palette, globalOpacity, alpha);
+  }
+  
+  // Upload only the vertices in use into the persistent buffer
+  gl.bindBuffer(gl.ARRAY_BUFFER, state.vertexBuffer);
+  gl.bufferSubData(gl.ARRAY_BUFFER, 0, uploadView(state, count));
+  
+  // Describe the interleaved layout (re-applied every frame: the ground program disables these)
+  for (let a = 0; a < VERTEX_LAYOUT.length; a++) {
+    const { name, components, offset: floatOffset } = VERTEX_LAYOUT[a];
+    const loc = locations[name];
+    if (loc < 0) continue;
+    gl.enableVertexAttribArray(loc);
+    gl.vertexAttribPointer(loc, components, gl.FLOAT, false, VERTEX_STRIDE, floatOffset * FLOAT_BYTES);
+  }
   
   // Draw all particles as points
-  gl.drawArrays(gl.POINTS, 0, particles.length);
+  gl.drawArrays(gl.POINTS, 0, count);
+}
+
+/**
+ * Upload a sprite sheet for layers drawn with SHAPE_CODES.sprite (null releases it). Returns the
+ * sheet now bound: null when the atlas can't be uploaded (a cross-origin image served without
+ * CORS), which is reported as a 'sprite-load' error.
+ * Cheap to call every frame: the atlas is only uploaded when the sheet changes.
+ */
+export function bindSpriteSheet(state: WebGLState, sheet: SpriteSheet | null): SpriteSheet | null {
+  if (state.sprites === sheet) return sheet;
+  const { gl } = state;
+  state.sprites = sheet;
+
+  if (!sheet) {
+    if (state.spriteTexture) gl.deleteTexture(state.spriteTexture);
+    state.spriteTexture = null;
+    return null;
+  }
+
+  state.spriteTexture ??= gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, state.spriteTexture);
+  try {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, sheet.atlas);
+  } catch (error) {
+    state.diagnostics.error({ code: 'sprite-load', message: `Could not upload the sprites: ${error}` });
+    return bindSpriteSheet(state, null);
+  }
+  // The atlas is power-of-two sized, so it can be mipmapped: small and blurred sprites stay smooth
+  gl.generateMipmap(gl.TEXTURE_2D);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return sheet;
+}
+
+// Reused by renderWebGL so the single-layer path doesn't allocate a layer list per frame
+const NO_PARTICLES: Particle[] = [];
+const singleLayer: WebGLLayer[] = [{ particles: NO_PARTICLES, layerOpacity: 1, shape: 0, precipitation: 'snow', blur: 0 }];
+
+// Draw a single layer into its own canvas (multi-canvas mode; blur is applied with CSS)
+export function renderWebGL(
+  state: WebGLState,
+  particles: Particle[],
+  width: number,
+  height: number,
+  palette: ColorSwatch[], // Flake colors (see resolvePalette)
+  globalOpacity: number,
+  layerOpacity: number,
+  roughness: number,
+  shape: number, // One of SHAPE_CODES
+  alpha = 1, // Interpolation factor between the previous and current simulation step
+  precipitation: Precipitation = 'snow'
+): void {
+  const target = singleLayer[0];
+  target.particles = particles;
+  target.layerOpacity = layerOpacity;
+  target.shape = shape;
+  target.precipitation = precipitation;
+  renderWebGLLayers(state, singleLayer, width, height, palette, globalOpacity, roughness, alpha);
+  target.particles = NO_PARTICLES;
 }
 
 export function isWebGLSupported(): boolean {
@@ -447,3 +753,91 @@ export function isWebGLSupported(): boolean {
   }
 }
 
+function initGround(gl: WebGLRenderingContext, diagnostics: Diagnostics): GroundState | null {
+  const program = createProgram(gl, diagnostics, GROUND_VERTEX_SHADER, GROUND_FRAGMENT_SHADER);
+  if (!program) return null;
+
+  const resolutionLoc = gl.getUniformLocation(program, 'u_resolution');
+  const pixelRatioLoc = gl.getUniformLocation(program, 'u_pixelRatio');
+  const colorLoc = gl.getUniformLocation(program, 'u_color');
+  const opacityLoc = gl.getUniformLocation(program, 'u_opacity');
+  const buffer = gl.createBuffer();
+
+  if (!resolutionLoc || !pixelRatioLoc || !colorLoc || !opacityLoc || !buffer) return null;
+
+  return {
+    program,
+    buffer,
+    vertices: new Float32Array(0),
+    locations: {
+      position: gl.getAttribLocation(program, 'a_position'),
+      resolution: resolutionLoc,
+      pixelRatio: pixelRatioLoc,
+      color: colorLoc,
+      opacity: opacityLoc,
+    },
+  };
+}
+
+// Draw a snowbank on top of the layer's particles (call after renderWebGL).
+// baseY/offsetX place the heightmap: the bottom edge for the ground, an obstacle's top edge for piles.
+export function renderGroundWebGL(
+  state: WebGLState,
+  ground: SnowGround,
+  width: number,
+  height: number,
+  color: string,
+  opacity: number,
+  baseY = height,
+  offsetX = 0
+): void {
+  const { gl } = state;
+
+  // A failed ground program isn't retried (and reported) every frame
+  if (state.ground === null) state.ground = initGround(gl, state.diagnostics) ?? false;
+  const groundState = state.ground;
+  if (!groundState) return;
+
+  const { heights, columnWidth } = ground;
+  const vertexCount = heights.length * 2;
+
+  // Reuse the vertex array between frames; only grow it when the column count increases
+  if (groundState.vertices.length < vertexCount * 2) {
+    groundState.vertices = new Float32Array(vertexCount * 2);
+  }
+  const vertices = groundState.vertices;
+
+  // Triangle strip: base line and snow surface for every column
+  for (let i = 0; i < heights.length; i++) {
+    const x = offsetX + i * columnWidth;
+    vertices[i * 4] = x;
+    vertices[i * 4 + 1] = baseY;
+    vertices[i * 4 + 2] = x;
+    vertices[i * 4 + 3] = baseY - smoothedHeight(ground, i);
+  }
+
+  // The particle program leaves its per-flake attributes enabled; this program only reads positions
+  for (let a = 0; a < VERTEX_LAYOUT.length; a++) {
+    const loc = state.locations[VERTEX_LAYOUT[a].name];
+    if (loc >= 0) gl.disableVertexAttribArray(loc);
+  }
+
+  gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+  gl.enable(gl.BLEND);
+  gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+  gl.useProgram(groundState.program);
+
+  gl.uniform2f(groundState.locations.resolution, gl.drawingBufferWidth, gl.drawingBufferHeight);
+  gl.uniform1f(groundState.locations.pixelRatio, getPixelRatio(gl, width));
+  const rgba = getColor(state, color);
+  gl.uniform3f(groundState.locations.color, rgba.r, rgba.g, rgba.b);
+  gl.uniform1f(groundState.locations.opacity, Math.max(0, Math.min(1, opacity)) * rgba.a);
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, groundState.buffer);
+  // The whole storage, so no view is created per pile; only the first vertexCount vertices are drawn
+  gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.DYNAMIC_DRAW);
+  gl.enableVertexAttribArray(groundState.locations.position);
+  gl.vertexAttribPointer(groundState.locations.position, 2, gl.FLOAT, false, 0, 0);
+
+  gl.drawArrays(gl.TRIANGLE_STRIP, 0, vertexCount);
+}
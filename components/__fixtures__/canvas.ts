@@ -0,0 +1,13 @@
+/**
+ * Spy on HTMLCanvasElement.getContext: 2D contexts (from the setup mock) get `overrides` assigned,
+ * and `webgl`, when given, creates the WebGL contexts. Restored by jest.restoreAllMocks.
+ */
+export function spyOnCanvasContexts(overrides: Partial<CanvasRenderingContext2D>, webgl?: () => unknown): jest.SpyInstance {
+  const getContext = HTMLCanvasElement.prototype.getContext;
+  return jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement, type: string) {
+    if (type === 'webgl' && webgl) return webgl();
+    const ctx = getContext.call(this, type) as CanvasRenderingContext2D | null;
+    if (ctx) Object.assign(ctx, overrides);
+    return ctx;
+  } as typeof getContext);
+}
@@ -0,0 +1,22 @@
+import { Particle } from '../../types';
+
+/** A flake for tests: at rest at (x, y), radius 2, falling at 1 px per step, with `overrides` on top */
+export function createParticle(overrides: Partial<Particle> = {}): Particle {
+  const { x = 0, y = 0 } = overrides;
+  return {
+    x,
+    y,
+    prevX: x,
+    prevY: y,
+    radius: 2,
+    opacity: 1,
+    vx: 0,
+    vy: 1,
+    wobble: 0,
+    wobbleSpeed: 0,
+    swayAmplitude: 0,
+    shapeSeed: 0,
+    band: 0,
+    ...overrides,
+  };
+}
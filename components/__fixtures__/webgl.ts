@@ -0,0 +1,33 @@
+// Returned by the methods of a context that doesn't record its calls
+const handle = {};
+const ignore = () => handle;
+
+/**
+ * Minimal WebGL context: every method is a no-op, queries report success. `methods` replaces
+ * individual methods; the others are recorded in `calls` unless `record` is false.
+ */
+export function createFakeGL(methods: Record<string, unknown> = {}, record = true) {
+  const calls: { name: string; args: unknown[] }[] = [];
+  let nextAttrib = 0;
+  const overrides: Record<string, unknown> = {
+    ...methods,
+    drawingBufferWidth: 800,
+    drawingBufferHeight: 600,
+    getShaderParameter: () => true,
+    getProgramParameter: () => true,
+    getAttribLocation: () => nextAttrib++,
+  };
+  const gl = new Proxy(overrides, {
+    get: (target, name: string) => {
+      if (name in target) return target[name];
+      if (/^[A-Z_]+$/.test(name)) return 0;
+      if (!record) return ignore;
+      return (...args: unknown[]) => {
+        calls.push({ name, args });
+        return {};
+      };
+    },
+  }) as unknown as WebGLRenderingContext;
+  const canvas = { getContext: () => gl } as unknown as HTMLCanvasElement;
+  return { gl, canvas, calls };
+}
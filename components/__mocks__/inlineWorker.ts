@@ -0,0 +1,22 @@
+// Stands in for Vite's `?worker&inline` imports under Jest. jsdom has no Worker or OffscreenCanvas,
+// so the worker renderer is only picked where a test provides them. Nothing runs in it: it keeps
+// the messages it is sent, and a test fails it by dispatching an `error` event on it.
+export default class InlineWorker extends EventTarget {
+  static instances: InlineWorker[] = [];
+
+  messages: unknown[] = [];
+  terminated = false;
+
+  constructor() {
+    super();
+    InlineWorker.instances.push(this);
+  }
+
+  postMessage(message: unknown): void {
+    this.messages.push(message);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+}
@@ -1,6 +1,55 @@
-import React from 'react';
-import { render } from '@testing-library/react';
+import React, { createRef } from 'react';
+import { render, act } from '@testing-library/react';
 import Snowfall from '../Snowfall';
+import { SnowfallHandle } from '../../types';
+import { SPRITE_CELL_SIZE } from '../sprites';
+import InlineWorker from '../__mocks__/inlineWorker';
+import { spyOnCanvasContexts } from '../__fixtures__/canvas';
+import { createFakeGL } from '../__fixtures__/webgl';
+
+// Globals a test defines (jsdom lacks them), put back as they were after each test, like the spies
+const defined: Array<[object, string, PropertyDescriptor | undefined]> = [];
+const defineGlobal = (target: object, name: string, value: unknown) => {
+  defined.push([target, name, Object.getOwnPropertyDescriptor(target, name)]);
+  Object.defineProperty(target, name, { value, configurable: true, writable: true });
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  defined.splice(0).reverse().forEach(([target, name, descriptor]) => {
+    if (descriptor) Object.defineProperty(target, name, descriptor);
+    else Reflect.deleteProperty(target, name);
+  });
+});
+
+// Observers that report what a test passes to `notify`
+class MockIntersectionObserver {
+  static latest: MockIntersectionObserver | null = null;
+  observe = jest.fn();
+  disconnect = jest.fn();
+
+  constructor(private callback: IntersectionObserverCallback) {
+    MockIntersectionObserver.latest = this;
+  }
+
+  notify(entries: Partial<IntersectionObserverEntry>[]) {
+    this.callback(entries as IntersectionObserverEntry[], this as unknown as IntersectionObserver);
+  }
+}
+
+class MockResizeObserver {
+  static latest: MockResizeObserver | null = null;
+  observe = jest.fn();
+  disconnect = jest.fn();
+
+  constructor(private callback: ResizeObserverCallback) {
+    MockResizeObserver.latest = this;
+  }
+
+  notify() {
+    this.callback([], this as unknown as ResizeObserver);
+  }
+}
 
 describe('Snowfall Component', () => {
   it('renders without crashing', () => {
@@ -8,10 +57,10 @@ describe('Snowfall Component', () => {
     expect(container).toBeInTheDocument();
   });
 
-  it('renders three distinct canvas layers (Back, Mid, Front)', () => {
+  it('renders one canvas per default layer (Back, Mid, Front, Camera)', () => {
     const { container } = render(<Snowfall />);
     const canvases = container.querySelectorAll('canvas');
-    expect(canvases).toHaveLength(3);
+    expect(canvases).toHaveLength(4);
   });
 
   it('applies the custom className to the container', () => {
@@ -23,8 +72,159 @@ describe('Snowfall Component', () => {
   it('applies blur filter style to the front layer', () => {
     const { container } = render(<Snowfall />);
     const canvases = container.querySelectorAll('canvas');
-    // The last canvas (index 2) is the front layer and should have the blur filter
-    expect(canvases[2]).toHaveStyle('filter: blur(2.5px)');
+    // The front layer (index 2) and the camera layer in front of it have the blur filter
+    expect(canvases[2]).toHaveStyle('filter: blur(3px)');
+    expect(canvases[3]).toHaveStyle('filter: blur(3px)');
+    expect(canvases[1].style.filter).toBe('');
+  });
+
+  it('falls back to Canvas 2D with the CSS blur when single-context WebGL is unavailable', () => {
+    const ref = createRef<SnowfallHandle>();
+    const { container } = render(<Snowfall ref={ref} renderer="webgl-single" />);
+    const canvases = container.querySelectorAll('canvas');
+    expect(canvases).toHaveLength(4);
+    expect(canvases[2]).toHaveStyle('filter: blur(3px)');
+    expect(ref.current!.getStats().renderer).toBe('canvas');
+  });
+
+  it('builds the canvas stack and counts from the layers prop', () => {
+    const ref = createRef<SnowfallHandle>();
+    const layers = [
+      { name: 'far', share: 0.5, shape: 'dot' as const, settle: false },
+      { name: 'near', share: 0.2, minCount: 30, blur: 4 },
+    ];
+    const { container } = render(<Snowfall ref={ref} density={100} layers={layers} />);
+    const canvases = container.querySelectorAll('canvas');
+
+    expect(canvases).toHaveLength(2);
+    expect(canvases[0].style.filter).toBe('');
+    expect(canvases[1]).toHaveStyle('filter: blur(4px)');
+    expect(ref.current!.getStats().particles).toEqual({ far: 50, near: 30, total: 80 });
+  });
+
+  it('keeps the field when an inline layers array has the same layers', () => {
+    const ref = createRef<SnowfallHandle>();
+    const { container, rerender } = render(<Snowfall ref={ref} density={100} layers={[{ name: 'near', share: 0.5, radius: [1, 2] }]} />);
+    const canvas = container.querySelector('canvas');
+    // Burst flakes would be dropped if the field were regenerated
+    act(() => {
+      ref.current!.pause();
+      ref.current!.burst(20);
+    });
+
+    rerender(<Snowfall ref={ref} density={100} layers={[{ name: 'near', share: 0.5, radius: [1, 2] }]} />);
+    expect(container.querySelector('canvas')).toBe(canvas);
+    expect(ref.current!.getStats().particles).toEqual({ near: 70, total: 70 });
+
+    rerender(<Snowfall ref={ref} density={100} layers={[{ name: 'near', share: 0.5, radius: [1, 3] }]} />);
+    expect(container.querySelector('canvas')).not.toBe(canvas);
+    expect(ref.current!.getStats().particles).toEqual({ near: 50, total: 50 });
+  });
+
+  it('switches the flake shape without regenerating the field', () => {
+    const ref = createRef<SnowfallHandle>();
+    const stroke = jest.fn();
+    spyOnCanvasContexts({ stroke });
+
+    const { rerender } = render(<Snowfall ref={ref} seed={3} shape="crystal" renderer="canvas" />);
+    act(() => {
+      ref.current!.pause();
+      ref.current!.step(20);
+    });
+    expect(stroke).toHaveBeenCalled();
+
+    const before = ref.current!.getStats().particles;
+    stroke.mockClear();
+    rerender(<Snowfall ref={ref} seed={3} shape="circle" renderer="canvas" />);
+    act(() => ref.current!.step(20));
+    expect(stroke).not.toHaveBeenCalled();
+    expect(ref.current!.getStats().particles).toEqual(before);
+  });
+
+  it('draws the default shapes until the sprites have loaded', async () => {
+    const ref = createRef<SnowfallHandle>();
+    const drawImage = jest.fn();
+    spyOnCanvasContexts({ drawImage });
+    // Flakes are stamped from the flake cache either way; sprite draws copy a whole atlas cell
+    const spriteDraws = () => drawImage.mock.calls.filter((args) => args[3] === SPRITE_CELL_SIZE);
+    const image = document.createElement('img');
+    const sprites = [{ src: image, scale: 3 }];
+
+    const { rerender } = render(<Snowfall ref={ref} seed={3} sprites={sprites} renderer="canvas" />);
+    act(() => {
+      ref.current!.pause();
+      ref.current!.step(20);
+    });
+    expect(drawImage).toHaveBeenCalled();
+    expect(spriteDraws()).toHaveLength(0);
+
+    Object.defineProperty(image, 'naturalWidth', { value: 32 });
+    await act(async () => {
+      image.dispatchEvent(new Event('load'));
+    });
+    drawImage.mockClear(); // Packing the atlas
+    act(() => ref.current!.step(20));
+    expect(spriteDraws().length).toBeGreaterThan(0);
+
+    // A new array of the same sprites keeps the loaded atlas
+    rerender(<Snowfall ref={ref} seed={3} sprites={[{ src: image, scale: 3 }]} renderer="canvas" />);
+    drawImage.mockClear();
+    act(() => ref.current!.step(20));
+    expect(spriteDraws().length).toBeGreaterThan(0);
+  });
+
+  it('keeps the pre-rendered flakes of every gradient color between frames', () => {
+    const ref = createRef<SnowfallHandle>();
+    render(<Snowfall ref={ref} seed={3} palette={{ colors: ['#fff', '#8cf'], mode: 'gradient' }} renderer="canvas" />);
+    act(() => {
+      ref.current!.pause();
+      ref.current!.step(20);
+    });
+
+    // 32 swatches of irregular flakes and dots: the second frame stamps what the first rendered
+    const createElement = jest.spyOn(document, 'createElement');
+    act(() => ref.current!.step(20));
+    expect(createElement).not.toHaveBeenCalled();
+  });
+
+  it('draws fewer flakes without blur at a lower quality level and reports it', () => {
+    const ref = createRef<SnowfallHandle>();
+    const onQualityChange = jest.fn();
+    const { container, rerender } = render(<Snowfall ref={ref} density={100} quality="high" onQualityChange={onQualityChange} />);
+    expect(onQualityChange).toHaveBeenLastCalledWith('high');
+    expect(ref.current!.getStats().quality).toBe('high');
+
+    rerender(<Snowfall ref={ref} density={100} quality="low" transitionDuration={0} onQualityChange={onQualityChange} />);
+    act(() => {
+      ref.current!.pause();
+      ref.current!.step(40);
+    });
+    expect(onQualityChange).toHaveBeenLastCalledWith('low');
+    expect(ref.current!.getStats()).toMatchObject({ quality: 'low', particles: { mid: 20 } });
+    expect(container.querySelectorAll('canvas')[2].style.filter).toBe('');
+  });
+
+  it('reports stats about once a second and shows them in the debug HUD', () => {
+    jest.useFakeTimers();
+    try {
+      const onStats = jest.fn();
+      const { container } = render(<Snowfall density={100} onStats={onStats} debug />);
+      const hud = container.querySelector('.rrs-snowfall-debug')!;
+      expect(hud.textContent).toContain('142 flakes');
+      expect(hud.textContent).toContain('canvas (WebGL failed)');
+
+      act(() => {
+        jest.advanceTimersByTime(1100);
+      });
+      expect(onStats).toHaveBeenCalledTimes(1);
+      const [stats] = onStats.mock.calls[0];
+      expect(stats).toMatchObject({ renderer: 'canvas', fallback: true, particles: { total: 142 } });
+      expect(stats.fps).toBeGreaterThan(50);
+      expect(stats.fps).toBeLessThan(70);
+      expect(hud.textContent).toMatch(/^\d+ fps/);
+    } finally {
+      jest.useRealTimers();
+    }
   });
 
   it('sets non-interactive container styles by default', () => {
@@ -37,4 +237,351 @@ describe('Snowfall Component', () => {
     expect(container.firstChild).toHaveStyle('pointer-events: none');
     expect(container.firstChild).toHaveStyle('z-index: 10');
   });
+
+  describe('imperative handle', () => {
+    it('pauses, steps and resumes the simulation', () => {
+      const ref = createRef<SnowfallHandle>();
+      render(<Snowfall ref={ref} seed={1} />);
+
+      act(() => ref.current!.pause());
+      expect(ref.current!.getStats().paused).toBe(true);
+
+      const before = ref.current!.getStats().time;
+      act(() => ref.current!.step(1000));
+      expect(ref.current!.getStats().time).toBeCloseTo(before + 1, 1);
+
+      act(() => ref.current!.resume());
+      expect(ref.current!.getStats().paused).toBe(false);
+    });
+
+    it('reports particle counts per layer and spawns bursts into the mid layer', () => {
+      const ref = createRef<SnowfallHandle>();
+      render(<Snowfall ref={ref} density={100} />);
+
+      const { particles } = ref.current!.getStats();
+      expect(particles).toEqual({ back: 80, mid: 50, front: 10, camera: 2, total: 142 });
+
+      act(() => ref.current!.burst(20));
+      expect(ref.current!.getStats().particles.mid).toBe(70);
+
+      act(() => ref.current!.reset());
+      expect(ref.current!.getStats().particles.mid).toBe(50);
+    });
+
+    it('takes its settings from the preset unless set explicitly', () => {
+      const ref = createRef<SnowfallHandle>();
+      const { rerender } = render(<Snowfall ref={ref} preset="flurry" />);
+      expect(ref.current!.getStats().particles.mid).toBe(150);
+
+      rerender(<Snowfall ref={ref} preset="flurry" density={100} transitionDuration={0} />);
+      act(() => {
+        ref.current!.pause();
+        ref.current!.step(40);
+      });
+      expect(ref.current!.getStats().particles.mid).toBe(50);
+    });
+
+    it('eases density changes in instead of regenerating the field', () => {
+      const ref = createRef<SnowfallHandle>();
+      const { rerender } = render(<Snowfall ref={ref} seed={4} density={100} transitionDuration={500} />);
+      act(() => ref.current!.pause());
+
+      rerender(<Snowfall ref={ref} seed={4} density={200} transitionDuration={500} />);
+      expect(ref.current!.getStats().particles.mid).toBe(50);
+      act(() => ref.current!.step(250));
+      const { mid } = ref.current!.getStats().particles;
+      expect(mid).toBeGreaterThan(50);
+      expect(mid).toBeLessThan(100);
+      act(() => ref.current!.step(300));
+      expect(ref.current!.getStats().particles.mid).toBe(100);
+
+      // Retired flakes fade out over the duration before they are removed
+      rerender(<Snowfall ref={ref} seed={4} density={100} maxRadius={4} transitionDuration={500} />);
+      act(() => ref.current!.step(550));
+      expect(ref.current!.getStats().particles.mid).toBeGreaterThan(50);
+      act(() => ref.current!.step(500));
+      expect(ref.current!.getStats().particles.mid).toBe(50);
+    });
+
+    it('blows gusts as often as the preset says', () => {
+      const ref = createRef<SnowfallHandle>();
+      const calm = { gusts: { frequency: 0 } };
+      const stormy = { gusts: { frequency: 3600, strength: [2, 2] as [number, number], duration: [1, 1] as [number, number] } };
+      const windAfter = (preset: typeof calm) => {
+        const { unmount } = render(<Snowfall ref={ref} seed={5} wind={1} preset={preset} />);
+        act(() => {
+          ref.current!.pause();
+          ref.current!.step(250);
+        });
+        const { wind } = ref.current!.getStats();
+        unmount();
+        return wind;
+      };
+
+      // A gust of strength 2 starts on the first step and adds up to 2x the base wind, either way
+      expect(Math.abs(windAfter(stormy) - windAfter(calm))).toBeGreaterThan(0.4);
+    });
+
+    it('eases a gust in and out over its own duration', () => {
+      const calm = createRef<SnowfallHandle>();
+      const gusty = createRef<SnowfallHandle>();
+      const long = { gusts: { frequency: 3600, strength: [2, 2] as [number, number], duration: [5, 5] as [number, number] } };
+      render(<Snowfall ref={calm} seed={5} wind={1} preset={{ gusts: { frequency: 0 } }} />);
+      render(<Snowfall ref={gusty} seed={5} wind={1} preset={long} />);
+      act(() => {
+        calm.current!.pause();
+        gusty.current!.pause();
+      });
+
+      // The gust starts on the first step and blows one way until it has died down
+      const gusts: number[] = [];
+      for (let elapsed = 0; elapsed < 4750; elapsed += 250) {
+        act(() => {
+          calm.current!.step(250);
+          gusty.current!.step(250);
+        });
+        gusts.push(gusty.current!.getStats().wind - calm.current!.getStats().wind);
+      }
+      expect(gusts.every((gust) => Math.sign(gust) === Math.sign(gusts[0]))).toBe(true);
+      expect(Math.max(...gusts.map(Math.abs))).toBeGreaterThan(1.5);
+    });
+
+    it('splashes rain drops of settling layers on the bottom edge', () => {
+      const ref = createRef<SnowfallHandle>();
+      jest.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(300);
+      jest.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(400);
+      render(<Snowfall ref={ref} seed={2} density={100} precipitation="rain" />);
+
+      act(() => {
+        ref.current!.pause();
+        ref.current!.step(1000);
+      });
+      const { back, mid } = ref.current!.getStats().particles;
+      expect(back).toBe(80); // 'back' doesn't settle: its drops just wrap
+      expect(mid).toBeGreaterThan(50);
+    });
+
+    it('overrides the base wind until cleared', () => {
+      const ref = createRef<SnowfallHandle>();
+      render(<Snowfall ref={ref} wind={0} />);
+
+      act(() => {
+        ref.current!.pause();
+        ref.current!.setWind(0);
+        ref.current!.step(100);
+      });
+      expect(ref.current!.getStats().wind).toBe(0);
+
+      act(() => {
+        ref.current!.setWind(2);
+        ref.current!.step(100);
+      });
+      expect(ref.current!.getStats().wind).not.toBe(0);
+    });
+  });
+
+  describe('power management', () => {
+    it('suspends while the page is hidden and resumes when visible again', () => {
+      const ref = createRef<SnowfallHandle>();
+      render(<Snowfall ref={ref} />);
+      const visibility = jest.spyOn(document, 'visibilityState', 'get');
+
+      visibility.mockReturnValue('hidden');
+      act(() => {
+        document.dispatchEvent(new Event('visibilitychange'));
+      });
+      expect(ref.current!.getStats().suspended).toBe(true);
+
+      visibility.mockReturnValue('visible');
+      act(() => {
+        document.dispatchEvent(new Event('visibilitychange'));
+      });
+      expect(ref.current!.getStats().suspended).toBe(false);
+    });
+
+    it('suspends while the container is offscreen unless disabled', () => {
+      defineGlobal(window, 'IntersectionObserver', MockIntersectionObserver);
+
+      const ref = createRef<SnowfallHandle>();
+      const { rerender } = render(<Snowfall ref={ref} />);
+      const observer = MockIntersectionObserver.latest!;
+      expect(observer.observe).toHaveBeenCalled();
+
+      act(() => observer.notify([{ isIntersecting: false }]));
+      expect(ref.current!.getStats().suspended).toBe(true);
+
+      rerender(<Snowfall ref={ref} pauseWhenOffscreen={false} />);
+      expect(ref.current!.getStats().suspended).toBe(false);
+      expect(observer.disconnect).toHaveBeenCalled();
+    });
+  });
+
+  describe('renderer lifecycle', () => {
+    it('reports the renderer and failures through the callbacks and the logger', () => {
+      const logger = { info: jest.fn(), error: jest.fn() };
+      const onRendererChange = jest.fn();
+      const onError = jest.fn();
+      const log = jest.spyOn(console, 'log');
+      render(<Snowfall logger={logger} onRendererChange={onRendererChange} onError={onError} />);
+
+      expect(onRendererChange).toHaveBeenCalledWith({
+        renderer: 'canvas',
+        layers: ['canvas', 'canvas', 'canvas', 'canvas'],
+        fallback: true,
+        reason: 'init',
+      });
+      expect(onError).not.toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalledWith('Snowfall: Using Canvas 2D renderer');
+      expect(log).not.toHaveBeenCalled();
+    });
+
+    it('renders on the main thread when the canvases cannot be handed to a worker', () => {
+      const ref = createRef<SnowfallHandle>();
+      const logger = { info: jest.fn() };
+      const { container } = render(<Snowfall ref={ref} renderer="worker" logger={logger} />);
+
+      expect(logger.info).toHaveBeenCalledWith('Snowfall: OffscreenCanvas is unavailable, rendering on the main thread');
+      expect(ref.current!.getStats()).toMatchObject({ renderer: 'canvas', worker: false, fallback: true });
+      expect(container.querySelectorAll('canvas')).toHaveLength(4);
+    });
+
+    it('draws on the main thread on new canvases when the worker fails', () => {
+      // Just enough for the canvases to be handed to the (mocked) worker
+      defineGlobal(window, 'Worker', InlineWorker);
+      defineGlobal(window, 'OffscreenCanvas', class {});
+      defineGlobal(HTMLCanvasElement.prototype, 'transferControlToOffscreen', () => ({}));
+      const ref = createRef<SnowfallHandle>();
+      const onRendererChange = jest.fn();
+      const onError = jest.fn();
+
+      const { container } = render(
+        <Snowfall ref={ref} renderer="worker" logger={{}} onRendererChange={onRendererChange} onError={onError} />
+      );
+      const transferred = Array.from(container.querySelectorAll('canvas'));
+      const worker = InlineWorker.instances[InlineWorker.instances.length - 1];
+      expect(worker.messages).toContainEqual(expect.objectContaining({ type: 'init' }));
+      expect(ref.current!.getStats().worker).toBe(true);
+
+      act(() => {
+        worker.dispatchEvent(new ErrorEvent('error', { message: 'blocked by CSP' }));
+      });
+      expect(onError).toHaveBeenCalledWith({ code: 'worker', message: 'Worker failed: blocked by CSP' });
+      expect(worker.terminated).toBe(true);
+      expect(onRendererChange).toHaveBeenLastCalledWith(expect.objectContaining({ renderer: 'canvas', reason: 'worker-error' }));
+      expect(ref.current!.getStats()).toMatchObject({ worker: false, particles: { mid: 600 } });
+
+      const canvases = Array.from(container.querySelectorAll('canvas'));
+      expect(canvases).toHaveLength(4);
+      canvases.forEach((canvas) => expect(transferred).not.toContain(canvas));
+    });
+
+    it('draws a layer with Canvas 2D while its WebGL context is lost', () => {
+      spyOnCanvasContexts({}, () => createFakeGL({}, false).gl);
+      const ref = createRef<SnowfallHandle>();
+      const onRendererChange = jest.fn();
+      const onError = jest.fn();
+      const logger = {};
+
+      const { container } = render(
+        <Snowfall ref={ref} renderer="webgl" logger={logger} onRendererChange={onRendererChange} onError={onError} />
+      );
+      expect(ref.current!.getStats()).toMatchObject({ renderer: 'webgl', fallback: false });
+      const canvases = container.querySelectorAll('canvas');
+
+      const lost = new Event('webglcontextlost', { cancelable: true });
+      act(() => {
+        canvases[1].dispatchEvent(lost);
+      });
+      expect(lost.defaultPrevented).toBe(true);
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'context-lost', layer: 'mid' }));
+      expect(onRendererChange).toHaveBeenLastCalledWith({
+        renderer: 'canvas',
+        layers: ['webgl', 'canvas', 'webgl', 'webgl'],
+        fallback: true,
+        reason: 'context-lost',
+      });
+      expect(container.querySelectorAll('canvas')).toHaveLength(5);
+      expect(canvases[1].style.visibility).toBe('hidden');
+
+      act(() => {
+        canvases[1].dispatchEvent(new Event('webglcontextrestored'));
+      });
+      expect(onRendererChange).toHaveBeenLastCalledWith(expect.objectContaining({ renderer: 'webgl', reason: 'context-restored' }));
+      expect(container.querySelectorAll('canvas')).toHaveLength(4);
+      expect(canvases[1].style.visibility).toBe('');
+      expect(ref.current!.getStats().renderer).toBe('webgl');
+    });
+  });
+
+  describe('resizing', () => {
+    it('observes the container and keeps existing particles when it resizes', async () => {
+      defineGlobal(window, 'ResizeObserver', MockResizeObserver);
+
+      const ref = createRef<SnowfallHandle>();
+      const { container } = render(<Snowfall ref={ref} density={100} />);
+      const root = container.firstChild as HTMLElement;
+      const observer = MockResizeObserver.latest!;
+      expect(observer.observe).toHaveBeenCalledWith(root);
+
+      // Burst flakes would be dropped if the field were regenerated (paused so none fall out meanwhile)
+      act(() => {
+        ref.current!.pause();
+        ref.current!.burst(20);
+      });
+
+      Object.defineProperty(root, 'clientWidth', { value: 800, configurable: true });
+      Object.defineProperty(root, 'clientHeight', { value: 600, configurable: true });
+      await act(async () => {
+        observer.notify();
+        await new Promise((resolve) => setTimeout(resolve, 150));
+      });
+
+      expect(container.querySelector('canvas')).toHaveAttribute('width', '800');
+      expect(ref.current!.getStats().particles).toEqual({ back: 80, mid: 70, front: 10, camera: 2, total: 162 });
+    });
+  });
+
+  describe('pixel ratio', () => {
+    const originalRatio = window.devicePixelRatio;
+
+    beforeEach(() => {
+      jest.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(400);
+      jest.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(300);
+    });
+
+    afterEach(() => {
+      Object.defineProperty(window, 'devicePixelRatio', { value: originalRatio, configurable: true });
+    });
+
+    it('scales the backing store by the device pixel ratio, capped at maxPixelRatio', () => {
+      Object.defineProperty(window, 'devicePixelRatio', { value: 3, configurable: true });
+
+      const { container, rerender } = render(<Snowfall />);
+      const canvas = container.querySelector('canvas')!;
+      expect(canvas).toHaveAttribute('width', '800');
+      expect(canvas).toHaveAttribute('height', '600');
+      expect(canvas).toHaveStyle('width: 100%');
+
+      rerender(<Snowfall maxPixelRatio={3} />);
+      expect(canvas).toHaveAttribute('width', '1200');
+    });
+
+    it('uses an explicit pixel ratio', () => {
+      const { container } = render(<Snowfall pixelRatio={1.5} />);
+      expect(container.querySelector('canvas')).toHaveAttribute('width', '600');
+    });
+
+    it('redraws the canvases it resizes while paused', () => {
+      const clearRect = jest.fn();
+      spyOnCanvasContexts({ clearRect });
+      const ref = createRef<SnowfallHandle>();
+
+      const { rerender } = render(<Snowfall ref={ref} renderer="canvas" />);
+      act(() => ref.current!.pause());
+      clearRect.mockClear();
+      rerender(<Snowfall ref={ref} renderer="canvas" pixelRatio={2} />);
+      // Setting the backing store size cleared them; every layer is drawn again
+      expect(clearRect).toHaveBeenCalledTimes(4);
+    });
+  });
 });
@@ -0,0 +1,230 @@
+import { Session } from 'inspector';
+import { initWebGL, renderWebGL, renderWebGLLayers, renderGroundWebGL, bindSpriteSheet, SHAPE_CODES } from '../WebGLRenderer';
+import { SpriteSheet } from '../sprites';
+import { resolvePalette } from '../color';
+import { createGround } from '../accumulation';
+import { FLAKE_CACHE_VARIANTS, flakeVariant, variantSeed } from '../flakeCache';
+import { createParticle } from '../__fixtures__/particle';
+import { createFakeGL } from '../__fixtures__/webgl';
+
+// Interleaved floats per flake: position (2), size, opacity, seed, rotation, shape, blur, color (3)
+const VERTEX_FLOATS = 11;
+const white = resolvePalette(undefined, '#ffffff');
+
+const flake = (i: number) => createParticle({
+  x: i % 800,
+  y: i % 600,
+  radius: 1 + (i % 3),
+  opacity: 0.8,
+  wobble: i,
+  shapeSeed: i,
+});
+
+// Count typed arrays constructed while `run` executes
+const countFloat32Allocations = (run: () => void): number => {
+  const Original = globalThis.Float32Array;
+  let count = 0;
+  globalThis.Float32Array = new Proxy(Original, {
+    construct: (target, args) => {
+      count++;
+      return Reflect.construct(target, args);
+    },
+  });
+  try {
+    run();
+  } finally {
+    globalThis.Float32Array = Original;
+  }
+  return count;
+};
+
+// Bytes allocated by the renderer while `run` executes, including objects already collected: V8's
+// sampling heap profiler attributes every sampled allocation to a call stack. Counts the renderer's
+// frames and everything they call (builtins such as subarray, other modules) except the fake context.
+const rendererAllocations = async (run: () => void): Promise<number> => {
+  const session = new Session();
+  const post = <T>(method: string, params: object = {}) =>
+    new Promise<T>((resolve, reject) => session.post(method, params, (error, result) => (error ? reject(error) : resolve(result as T))));
+  type ProfileNode = { callFrame: { url: string }; selfSize: number; children: ProfileNode[] };
+  const sum = (node: ProfileNode, inRenderer: boolean): number => {
+    const { url } = node.callFrame;
+    const counted = url.endsWith('/WebGLRenderer.ts') || (inRenderer && !/\/(__tests__|__fixtures__)\//.test(url));
+    return (counted ? node.selfSize : 0) + node.children.reduce((total, child) => total + sum(child, counted), 0);
+  };
+
+  session.connect();
+  try {
+    await post('HeapProfiler.startSampling', {
+      samplingInterval: 16,
+      includeObjectsCollectedByMajorGC: true,
+      includeObjectsCollectedByMinorGC: true,
+    });
+    run();
+    const { profile } = await post<{ profile: { head: ProfileNode } }>('HeapProfiler.stopSampling');
+    return sum(profile.head, false);
+  } finally {
+    session.disconnect();
+  }
+};
+
+describe('WebGLRenderer', () => {
+  it('allocates nothing per frame once the vertex storage has grown', async () => {
+    // Recording calls would allocate inside the renderer's frames once V8 inlines the fake methods
+    const uploads = new Set<Float32Array>();
+    let uploadCount = 0;
+    const { canvas } = createFakeGL({
+      bufferSubData: (_target: number, _offset: number, data: Float32Array) => {
+        uploads.add(data);
+        uploadCount++;
+      },
+    }, false);
+    const state = initWebGL(canvas)!;
+    const particles = Array.from({ length: 1500 }, (_, i) => flake(i));
+    const ground = createGround(800);
+    const pile = createGround(120);
+    const frame = () => {
+      renderWebGL(state, particles, 800, 600, white, 1, 0.6, 0.5, 1, 0.5);
+      renderGroundWebGL(state, ground, 800, 600, '#ffffff', 1);
+      renderGroundWebGL(state, pile, 800, 600, '#ffffff', 1, 400, 200);
+    };
+
+    // Warm-up frame allocates the interleaved storage once, and sets up the ground program and its storage
+    expect(countFloat32Allocations(frame)).toBe(3);
+    // Let V8 optimize the hot loops: interpreted code boxes intermediate numbers
+    for (let i = 0; i < 500; i++) frame();
+
+    // A round can still catch V8 recompiling; a real per-frame allocation shows up in every round
+    const frames = 120;
+    let allocated = Infinity;
+    for (let round = 0; round < 3 && allocated > 0; round++) {
+      uploads.clear();
+      uploadCount = 0;
+      allocated = Math.min(allocated, await rendererAllocations(() => {
+        for (let i = 0; i < frames; i++) frame();
+      }));
+    }
+    expect(allocated / frames).toBe(0);
+
+    // Steady state only updates the persistent buffer, always from the same view
+    expect(uploadCount).toBe(frames);
+    expect(uploads.size).toBe(1);
+    expect([...uploads][0].length).toBe(1500 * VERTEX_FLOATS);
+  });
+
+  it('grows the storage and interleaves every layer into one draw call', () => {
+    const { canvas, calls } = createFakeGL();
+    const state = initWebGL(canvas)!;
+    const back = Array.from({ length: 100 }, (_, i) => flake(i));
+    const front = Array.from({ length: 300 }, (_, i) => flake(i));
+
+    renderWebGLLayers(state, [
+      { particles: back, layerOpacity: 0.3, shape: SHAPE_CODES.dot, precipitation: 'snow', blur: 0 },
+      { particles: front, layerOpacity: 0.8, shape: SHAPE_CODES.crystal, precipitation: 'snow', blur: 3 },
+    ], 800, 600, white, 1, 0.5);
+
+    expect(state.vertices.length).toBe(512 * VERTEX_FLOATS);
+    expect(calls.filter((call) => call.name === 'drawArrays')).toEqual([{ name: 'drawArrays', args: [0, 0, 400] }]);
+    // shape and blur of the first and last vertex come from their layers
+    expect(Array.from(state.vertices.slice(6, 8))).toEqual([0, 0]);
+    expect(Array.from(state.vertices.slice(399 * VERTEX_FLOATS + 6, 399 * VERTEX_FLOATS + 8))).toEqual([3, 3]);
+  });
+
+  it('writes per-flake palette colors and folds the color alpha into the opacity', () => {
+    const { canvas } = createFakeGL();
+    const state = initWebGL(canvas)!;
+    const particles = [flake(1)];
+    particles[0].opacity = 0.4;
+
+    renderWebGL(state, particles, 800, 600, resolvePalette(undefined, 'rgba(0, 0, 255, 0.5)'), 1, 1, 0.5, 1);
+    expect(state.vertices[3]).toBeCloseTo(0.4 * 1.4 * 0.5); // radius 2: desktop opacity boost 1.4
+    expect(Array.from(state.vertices.slice(8, 11))).toEqual([0, 0, 1]);
+
+    const palette = resolvePalette(['#ff0000', '#00ff00', '#0000ff'], '#ffffff');
+    const many = Array.from({ length: 60 }, (_, i) => flake(i * 13.7));
+    renderWebGL(state, many, 800, 600, palette, 1, 1, 0.5, 1);
+    const colors = new Set(many.map((_, i) => state.vertices.slice(i * VERTEX_FLOATS + 8, i * VERTEX_FLOATS + 11).join()));
+    expect(colors).toEqual(new Set(['1,0,0', '0,1,0', '0,0,1']));
+  });
+
+  it('draws sprite layers from the bound atlas at the sprite size', () => {
+    const { canvas, calls } = createFakeGL();
+    const state = initWebGL(canvas)!;
+    const sheet: SpriteSheet = {
+      atlas: document.createElement('canvas'),
+      columns: 2,
+      frames: [{ cell: 0, scale: 1 }, { cell: 1, scale: 2 }],
+      cumulativeWeights: [0, 1], // Every flake picks the second sprite
+    };
+
+    bindSpriteSheet(state, sheet);
+    bindSpriteSheet(state, sheet);
+    expect(calls.filter((call) => call.name === 'texImage2D')).toHaveLength(1);
+
+    renderWebGL(state, [flake(2)], 800, 600, white, 1, 1, 0.5, SHAPE_CODES.sprite);
+    expect(state.vertices[2]).toBe(3 * 4 * 2); // radius 3, sprite box 4, scale 2
+    expect(state.vertices[6]).toBe(SHAPE_CODES.sprite + 1);
+
+    bindSpriteSheet(state, null);
+    expect(calls.filter((call) => call.name === 'deleteTexture')).toHaveLength(1);
+  });
+
+  it('drops a sprite sheet the GPU refuses and reports it', () => {
+    const { canvas, calls } = createFakeGL({
+      texImage2D: () => {
+        throw new DOMException('The image element contains cross-origin data.', 'SecurityError');
+      },
+    });
+    const diagnostics = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const state = initWebGL(canvas, diagnostics)!;
+    const sheet: SpriteSheet = { atlas: document.createElement('canvas'), columns: 1, frames: [{ cell: 0, scale: 1 }], cumulativeWeights: [1] };
+
+    expect(bindSpriteSheet(state, sheet)).toBeNull();
+    expect(state.sprites).toBeNull();
+    expect(calls.filter((call) => call.name === 'deleteTexture')).toHaveLength(1);
+    expect(diagnostics.error).toHaveBeenCalledWith(expect.objectContaining({ code: 'sprite-load' }));
+  });
+
+  it('shapes crystals from the same seeds as the Canvas flake cache', () => {
+    const { canvas } = createFakeGL();
+    const state = initWebGL(canvas)!;
+    const particles = Array.from({ length: 50 }, (_, i) => flake(i * 19.3));
+
+    renderWebGL(state, particles, 800, 600, white, 1, 1, 0.5, SHAPE_CODES.crystal);
+    const seeds = particles.map((_, i) => state.vertices[i * VERTEX_FLOATS + 4]);
+    expect(seeds).toEqual(particles.map((p) => Math.fround(variantSeed(flakeVariant(p)))));
+    expect(new Set(seeds).size).toBeLessThanOrEqual(FLAKE_CACHE_VARIANTS);
+  });
+
+  it('draws rain drops as streaks rotated to their motion', () => {
+    const { canvas } = createFakeGL();
+    const state = initWebGL(canvas)!;
+    const drop = flake(0);
+    drop.prevY = drop.y - 10; // Falling straight down 10px per step
+
+    renderWebGL(state, [drop], 800, 600, white, 1, 1, 0.5, SHAPE_CODES.irregular, 1, 'rain');
+    const size = 15 + 0.5; // 1.5 steps of motion plus the width
+    expect(state.vertices[1]).toBeCloseTo(drop.y - 7.5);
+    expect(state.vertices[2]).toBeCloseTo(size);
+    expect(state.vertices[4]).toBeCloseTo(0.25 / size);
+    expect(state.vertices[5]).toBeCloseTo(0);
+    expect(state.vertices[6]).toBe(SHAPE_CODES.rain);
+
+    renderWebGL(state, [drop], 800, 600, white, 1, 1, 0.5, SHAPE_CODES.irregular, 1, 'snow');
+    expect(state.vertices[6]).toBe(SHAPE_CODES.irregular);
+  });
+
+  it('parses the snowbank color only when it changes', () => {
+    const { canvas } = createFakeGL();
+    const state = initWebGL(canvas)!;
+    const ground = createGround(800);
+
+    renderGroundWebGL(state, ground, 800, 600, '#ff0000', 1);
+    const parsed = state.color;
+    renderGroundWebGL(state, ground, 800, 600, '#ff0000', 1);
+    expect(state.color).toBe(parsed);
+    expect(parsed.rgba).toEqual({ r: 1, g: 0, b: 0, a: 1 });
+
+    renderGroundWebGL(state, ground, 800, 600, 'hsl(240, 100%, 50%)', 1);
+    expect(state.color.rgba).toEqual({ r: 0, g: 0, b: 1, a: 1 });
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  resolveAccumulation,
+  createGround,
+  groundHeightAt,
+  depositSnow,
+  settleGround,
+  clearGround,
+} from '../accumulation';
+
+describe('accumulation', () => {
+  it('resolves the accumulate prop with defaults', () => {
+    expect(resolveAccumulation(undefined)).toBeNull();
+    expect(resolveAccumulation(false)).toBeNull();
+    expect(resolveAccumulation(true)).toEqual({ maxDepth: 80, maxObstacleDepth: 16, meltRate: 0 });
+    expect(resolveAccumulation({ meltRate: 2 })).toEqual({ maxDepth: 80, maxObstacleDepth: 16, meltRate: 2 });
+  });
+
+  it('deposits landed flakes around the landing point up to the max depth', () => {
+    const ground = createGround(400);
+    depositSnow(ground, 200, 3, 80);
+    expect(groundHeightAt(ground, 200)).toBeGreaterThan(0);
+    expect(groundHeightAt(ground, 20)).toBe(0);
+
+    for (let i = 0; i < 1000; i++) depositSnow(ground, 200, 3, 10);
+    expect(groundHeightAt(ground, 200)).toBeLessThanOrEqual(10);
+  });
+
+  it('slumps steep piles into neighbouring columns and melts', () => {
+    const ground = createGround(100);
+    ground.heights[10] = 20;
+    for (let i = 0; i < 200; i++) settleGround(ground, 0);
+    expect(ground.heights[10]).toBeLessThan(20);
+    expect(ground.heights[9]).toBeGreaterThan(0);
+
+    const total = ground.heights.reduce((sum, h) => sum + h, 0);
+    expect(total).toBeCloseTo(20, 3);
+
+    settleGround(ground, 100);
+    expect(Math.max(...ground.heights)).toBe(0);
+  });
+
+  it('keeps the snow when resampled to a new width and can be cleared', () => {
+    const ground = createGround(400);
+    ground.heights.fill(12);
+    const resized = createGround(800, ground);
+    expect(groundHeightAt(resized, 700)).toBe(12);
+
+    clearGround(resized);
+    expect(groundHeightAt(resized, 700)).toBe(0);
+  });
+});
@@ -0,0 +1,72 @@
+import { parseColor, resolvePalette, swatchFor } from '../color';
+import { Particle } from '../../types';
+
+const withSeed = (shapeSeed: number) => ({ shapeSeed } as Particle);
+
+describe('color', () => {
+  it('parses hex colors of every length', () => {
+    expect(parseColor('#ffffff')).toEqual({ r: 1, g: 1, b: 1, a: 1 });
+    expect(parseColor('#f00')).toEqual({ r: 1, g: 0, b: 0, a: 1 });
+    expect(parseColor('#0f08')).toEqual({ r: 0, g: 1, b: 0, a: 0x88 / 255 });
+    expect(parseColor('#0000FF80')).toEqual({ r: 0, g: 0, b: 1, a: 0x80 / 255 });
+  });
+
+  it('parses rgb() and rgba() in comma and space syntax', () => {
+    expect(parseColor('rgb(255, 0, 0)')).toEqual({ r: 1, g: 0, b: 0, a: 1 });
+    expect(parseColor('rgba(255, 255, 255, 0.5)')).toEqual({ r: 1, g: 1, b: 1, a: 0.5 });
+    expect(parseColor('rgb(0 255 0 / 25%)')).toEqual({ r: 0, g: 1, b: 0, a: 0.25 });
+    expect(parseColor('rgb(100%, 0%, 0%)')).toEqual({ r: 1, g: 0, b: 0, a: 1 });
+  });
+
+  it('parses hsl() and hsla()', () => {
+    expect(parseColor('hsl(0, 100%, 50%)')).toEqual({ r: 1, g: 0, b: 0, a: 1 });
+    expect(parseColor('hsla(120deg 100% 50% / 0.5)')).toEqual({ r: 0, g: 1, b: 0, a: 0.5 });
+    expect(parseColor('hsl(0.5turn, 100%, 50%)')).toEqual({ r: 0, g: 1, b: 1, a: 1 });
+    expect(parseColor('hsl(0, 0%, 100%)')).toEqual({ r: 1, g: 1, b: 1, a: 1 });
+  });
+
+  it('resolves named colors through the browser and falls back to white', () => {
+    const context = { fillStyle: '' };
+    const getContext = jest.spyOn(HTMLCanvasElement.prototype, 'getContext');
+    const named: Record<string, string> = { rebeccapurple: '#663399', black: '#000000' };
+    Object.defineProperty(context, 'fillStyle', {
+      get() { return this.value; },
+      set(value: string) { this.value = value.startsWith('#') ? value : named[value] ?? this.value; },
+    });
+    getContext.mockReturnValue(context as unknown as CanvasRenderingContext2D);
+
+    expect(parseColor('RebeccaPurple')).toEqual({ r: 0x66 / 255, g: 0x33 / 255, b: 0x99 / 255, a: 1 });
+    expect(parseColor('black')).toEqual({ r: 0, g: 0, b: 0, a: 1 });
+    expect(parseColor('not-a-color')).toEqual({ r: 1, g: 1, b: 1, a: 1 });
+    expect(parseColor('transparent').a).toBe(0);
+
+    getContext.mockRestore();
+  });
+
+  it('resolves palettes into swatches', () => {
+    expect(resolvePalette(undefined, 'rgba(255, 0, 0, 0.5)')).toEqual([
+      { rgba: { r: 1, g: 0, b: 0, a: 0.5 }, css: 'rgba(255, 0, 0, 0.5)' },
+    ]);
+    expect(resolvePalette([], '#fff').map((swatch) => swatch.css)).toEqual(['rgba(255, 255, 255, 1)']);
+    expect(resolvePalette(['#f00', '#00f'], '#fff').map((swatch) => swatch.css)).toEqual([
+      'rgba(255, 0, 0, 1)',
+      'rgba(0, 0, 255, 1)',
+    ]);
+
+    const gradient = resolvePalette({ colors: ['#000', '#fff'], mode: 'gradient' }, '#fff');
+    expect(gradient).toHaveLength(32);
+    expect(gradient[0].rgba).toEqual({ r: 0, g: 0, b: 0, a: 1 });
+    expect(gradient[31].rgba).toEqual({ r: 1, g: 1, b: 1, a: 1 });
+    expect(gradient[16].rgba.r).toBeCloseTo(16 / 31);
+  });
+
+  it('picks a stable swatch per flake from its shape seed', () => {
+    const palette = resolvePalette(['#f00', '#0f0', '#00f'], '#fff');
+    const picks = Array.from({ length: 300 }, (_, i) => swatchFor(palette, withSeed(i * 3.3)));
+
+    expect(swatchFor(palette, withSeed(42))).toBe(swatchFor(palette, withSeed(42)));
+    palette.forEach((swatch) => {
+      expect(picks.filter((pick) => pick === swatch).length).toBeGreaterThan(50);
+    });
+  });
+});
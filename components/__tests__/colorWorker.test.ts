@@ -0,0 +1,33 @@
+/**
+ * @jest-environment node
+ */
+import { parseColor } from '../color';
+
+// A worker has OffscreenCanvas but no document; this context normalizes like a browser would
+class FakeOffscreenCanvas {
+  getContext() {
+    let fillStyle = '#000000';
+    return {
+      get fillStyle() {
+        return fillStyle;
+      },
+      set fillStyle(value: string) {
+        if (value === 'skyblue') fillStyle = '#87ceeb';
+        else if (/^#[0-9a-f]{6}$/.test(value)) fillStyle = value;
+      },
+    };
+  }
+}
+
+describe('color in a worker', () => {
+  it('resolves browser-only colors through an offscreen context', () => {
+    expect(typeof document).toBe('undefined');
+    Object.defineProperty(globalThis, 'OffscreenCanvas', { value: FakeOffscreenCanvas, configurable: true });
+    try {
+      expect(parseColor('skyblue')).toEqual({ r: 0x87 / 255, g: 0xce / 255, b: 0xeb / 255, a: 1 });
+      expect(parseColor('not-a-color')).toEqual({ r: 1, g: 1, b: 1, a: 1 });
+    } finally {
+      Reflect.deleteProperty(globalThis, 'OffscreenCanvas');
+    }
+  });
+});
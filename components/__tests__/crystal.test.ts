@@ -0,0 +1,72 @@
+import { CRYSTAL, CRYSTAL_GLSL, crystalBranchAt, crystalBranchCount, drawCrystal } from '../crystal';
+
+// Records every path command with its arguments
+const recordingContext = () => {
+  const calls: string[] = [];
+  const record = (name: string) => (...args: number[]) => {
+    calls.push(`${name}(${args.map((value) => value.toFixed(3)).join(',')})`);
+  };
+  const ctx = {
+    fillStyle: '#fff',
+    strokeStyle: '',
+    lineWidth: 1,
+    lineCap: 'butt',
+    beginPath: record('beginPath'),
+    moveTo: record('moveTo'),
+    lineTo: record('lineTo'),
+    closePath: record('closePath'),
+    fill: record('fill'),
+    stroke: record('stroke'),
+    rotate: record('rotate'),
+  };
+  return { ctx, calls };
+};
+
+describe('crystal', () => {
+  it('draws the same geometry for the same seed', () => {
+    const first = recordingContext();
+    const second = recordingContext();
+    const other = recordingContext();
+    drawCrystal(first.ctx as unknown as CanvasRenderingContext2D, 42.5, 4);
+    drawCrystal(second.ctx as unknown as CanvasRenderingContext2D, 42.5, 4);
+    drawCrystal(other.ctx as unknown as CanvasRenderingContext2D, 917.25, 4);
+
+    expect(first.calls).toEqual(second.calls);
+    expect(first.calls).not.toEqual(other.calls);
+  });
+
+  it('fills the plate and strokes six arms in the fill color, leaving the rotation unchanged', () => {
+    const { ctx, calls } = recordingContext();
+    drawCrystal(ctx as unknown as CanvasRenderingContext2D, 7, 3);
+
+    expect(calls.filter((call) => call === 'fill()')).toHaveLength(1);
+    expect(calls.filter((call) => call === 'stroke()')).toHaveLength(1);
+    const turns = calls.filter((call) => call.startsWith('rotate'));
+    expect(turns).toHaveLength(6);
+    expect(turns.every((call) => call === `rotate(${(Math.PI / 3).toFixed(3)})`)).toBe(true);
+
+    expect(ctx.strokeStyle).toBe('#fff');
+    expect(ctx.lineCap).toBe('round');
+    expect(ctx.lineWidth).toBeGreaterThanOrEqual(CRYSTAL.widthMin * 3);
+    expect(ctx.lineWidth).toBeLessThan((CRYSTAL.widthMin + CRYSTAL.widthRange) * 3 * 1.2);
+  });
+
+  it('varies the branches per seed and keeps them on the arm', () => {
+    const counts = new Set(Array.from({ length: 50 }, (_, i) => crystalBranchCount(i * 19.37)));
+    expect(counts).toEqual(new Set([2, 3]));
+
+    for (const count of [2, 3]) {
+      const positions = Array.from({ length: count }, (_, i) => crystalBranchAt(i, count));
+      expect(positions[0]).toBeGreaterThan(0);
+      expect(positions[count - 1]).toBeLessThan(1);
+      expect([...positions].sort()).toEqual(positions);
+    }
+  });
+
+  it('shares its constants with the shader', () => {
+    for (const value of Object.values(CRYSTAL)) {
+      expect(CRYSTAL_GLSL).toContain(Number.isInteger(value) ? value.toFixed(1) : String(value));
+    }
+    expect(CRYSTAL_GLSL).toContain('float crystalDistance(vec2 p, float seed)');
+  });
+});
@@ -0,0 +1,34 @@
+import { createDiagnostics } from '../diagnostics';
+
+describe('diagnostics', () => {
+  it('prefixes messages and sends errors to the error callback too', () => {
+    const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const onError = jest.fn();
+    const diagnostics = createDiagnostics(() => ({ logger, onError }));
+
+    diagnostics.info('Using WebGL renderer');
+    diagnostics.warn('Unknown preset "monsoon"');
+    diagnostics.error({ code: 'webgl-init', message: 'WebGL init failed' });
+
+    expect(logger.info).toHaveBeenCalledWith('Snowfall: Using WebGL renderer');
+    expect(logger.warn).toHaveBeenCalledWith('Snowfall: Unknown preset "monsoon"');
+    expect(logger.error).toHaveBeenCalledWith('Snowfall: WebGL init failed');
+    expect(onError).toHaveBeenCalledWith({ code: 'webgl-init', message: 'WebGL init failed' });
+  });
+
+  it('drops the levels the logger leaves out and follows changes to the sinks', () => {
+    const info = jest.spyOn(console, 'info').mockImplementation(() => {});
+    const sinks: { logger?: { warn: jest.Mock } } = {};
+    const diagnostics = createDiagnostics(() => sinks);
+
+    diagnostics.info('to the console');
+    expect(info).toHaveBeenCalledWith('Snowfall: to the console');
+
+    sinks.logger = { warn: jest.fn() };
+    diagnostics.info('dropped');
+    diagnostics.warn('kept');
+    expect(info).toHaveBeenCalledTimes(1);
+    expect(sinks.logger.warn).toHaveBeenCalledWith('Snowfall: kept');
+    info.mockRestore();
+  });
+});
@@ -0,0 +1,78 @@
+import { createSnowEngine } from '../engine';
+
+describe('createSnowEngine', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  it('draws into the container and follows option changes until destroyed', () => {
+    const onQualityChange = jest.fn();
+    const engine = createSnowEngine(container, { seed: 1, density: 100, quality: 'high', onQualityChange, logger: {} });
+    expect(container.querySelectorAll('canvas')).toHaveLength(4);
+    expect(onQualityChange).toHaveBeenCalledWith('high');
+    engine.pause();
+
+    // update keeps the other options, setOptions replaces them (back to the default density)
+    engine.update({ density: 200, transitionDuration: 0 });
+    engine.step(40);
+    expect(engine.getStats()).toMatchObject({ paused: true, quality: 'high', particles: { mid: 100 } });
+    engine.setOptions({ seed: 1, quality: 'low', transitionDuration: 0, debug: true, onQualityChange, logger: {} });
+    engine.step(40);
+    expect(onQualityChange).toHaveBeenLastCalledWith('low');
+    expect(engine.getStats().particles.mid).toBe(240);
+    expect(container.querySelector('.rrs-snowfall-debug')!.textContent).toContain('low quality');
+
+    // New layers take a new set of canvases
+    engine.update({ layers: [{ share: 0.5 }] });
+    expect(container.querySelectorAll('canvas')).toHaveLength(1);
+
+    engine.destroy();
+    expect(container.children).toHaveLength(0);
+  });
+
+  it('measures the obstacles again when the page changes, but not for its own canvases', async () => {
+    const obstacle = document.createElement('div');
+    document.body.appendChild(obstacle);
+    const measure = jest.spyOn(obstacle, 'getBoundingClientRect');
+    const engine = createSnowEngine(container, { obstacles: [obstacle], logger: {} });
+    // Mutation records arrive in a microtask, the measurement on the next animation frame
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+    await settle();
+    measure.mockClear();
+
+    container.querySelector('canvas')!.style.width = '50%';
+    await settle();
+    expect(measure).not.toHaveBeenCalled();
+
+    obstacle.className = 'moved';
+    await settle();
+    expect(measure).toHaveBeenCalled();
+
+    engine.destroy();
+    obstacle.remove();
+  });
+
+  it('keeps observing the obstacles when a new array lists the same targets', () => {
+    const obstacle = document.createElement('div');
+    document.body.appendChild(obstacle);
+    const disconnect = jest.spyOn(MutationObserver.prototype, 'disconnect');
+    const engine = createSnowEngine(container, { obstacles: [obstacle, 'header'], logger: {} });
+
+    engine.update({ obstacles: [obstacle, 'header'] });
+    expect(disconnect).not.toHaveBeenCalled();
+
+    engine.update({ obstacles: [obstacle] });
+    expect(disconnect).toHaveBeenCalledTimes(1);
+
+    engine.destroy();
+    obstacle.remove();
+    disconnect.mockRestore();
+  });
+});
@@ -0,0 +1,88 @@
+import { createParticle } from '../__fixtures__/particle';
+import { FLAKE_CACHE_ROTATIONS, FLAKE_CACHE_VARIANTS, createFlakeCache, drawCachedFlake, flakeCacheEntry, flakeCacheLimit, flakeVariant } from '../flakeCache';
+import { resolvePalette, swatchFor } from '../color';
+
+const flake = (radius: number, shapeSeed = 12.5) => createParticle({
+  x: 10,
+  y: 10,
+  radius,
+  opacity: 0.6,
+  vy: 0.8,
+  wobbleSpeed: 0.01,
+  swayAmplitude: 0.5,
+  shapeSeed,
+  band: 1,
+});
+
+const target = () => ({ drawImage: jest.fn() });
+
+describe('flakeCache', () => {
+  it('renders each size once and stamps it scaled to the flake', () => {
+    const createElement = jest.spyOn(document, 'createElement');
+    const cache = createFlakeCache();
+    const entry = flakeCacheEntry(cache, 'irregular', 'rgba(255, 255, 255, 1)', 0.9, 2);
+    const ctx = target();
+
+    drawCachedFlake(ctx as unknown as CanvasRenderingContext2D, entry, flake(3), 10, 20, 0);
+    drawCachedFlake(ctx as unknown as CanvasRenderingContext2D, entry, flake(3.5, 40.2), 50, 60, 1);
+    expect(createElement).toHaveBeenCalledTimes(1);
+    createElement.mockRestore();
+
+    // Both come from the radius 4 sheet: cells of the same size, in the middle and last rotation columns
+    const [first, second] = ctx.drawImage.mock.calls;
+    const sheet = entry.sheets[2]!;
+    expect(first[0]).toBe(sheet.canvas);
+    expect(second[0]).toBe(sheet.canvas);
+    expect(first[1]).toBe(((FLAKE_CACHE_ROTATIONS - 1) / 2) * sheet.cell);
+    expect(second[1]).toBe((FLAKE_CACHE_ROTATIONS - 1) * sheet.cell);
+    expect(first[2]).not.toBe(second[2]);
+    // Centered on the flake, scaled from the sheet's radius to the flake's
+    const side = sheet.half * 2 * (3 / 4);
+    expect(first.slice(5)).toEqual([10 - side / 2, 20 - side / 2, side, side]);
+  });
+
+  it('keys entries by shape, color and roughness to a tenth', () => {
+    const cache = createFlakeCache();
+    const entry = flakeCacheEntry(cache, 'irregular', '#fff', 0.91, 1);
+    expect(flakeCacheEntry(cache, 'irregular', '#fff', 0.88, 1)).toBe(entry);
+    expect(flakeCacheEntry(cache, 'irregular', '#fff', 0.7, 1)).not.toBe(entry);
+    expect(flakeCacheEntry(cache, 'irregular', '#abc', 0.91, 1)).not.toBe(entry);
+    // Circles and crystals don't depend on the roughness
+    expect(flakeCacheEntry(cache, 'circle', '#fff', 0.2, 1)).toBe(flakeCacheEntry(cache, 'circle', '#fff', 0.9, 1));
+  });
+
+  it('drops the least recently used entry once full', () => {
+    const cache = createFlakeCache();
+    const first = flakeCacheEntry(cache, 'circle', '#000', 0, 1, 3);
+    const second = flakeCacheEntry(cache, 'circle', '#111', 0, 1, 3);
+    flakeCacheEntry(cache, 'circle', '#222', 0, 1, 3);
+    flakeCacheEntry(cache, 'circle', '#000', 0, 1, 3);
+    flakeCacheEntry(cache, 'circle', '#333', 0, 1, 3);
+
+    expect(cache.size).toBe(3);
+    expect(flakeCacheEntry(cache, 'circle', '#000', 0, 1, 3)).toBe(first);
+    expect(flakeCacheEntry(cache, 'circle', '#111', 0, 1, 3)).not.toBe(second);
+    expect(flakeCacheLimit(32)).toBeGreaterThanOrEqual(64);
+  });
+
+  it('picks the outline independently of the palette color', () => {
+    const palette = resolvePalette(Array.from({ length: FLAKE_CACHE_VARIANTS }, (_, i) => `rgb(${i}, 0, 0)`), '#fff');
+    const pairs = new Set(Array.from({ length: 400 }, (_, i) => {
+      const p = flake(3, i * 2.37);
+      return `${palette.indexOf(swatchFor(palette, p))}:${flakeVariant(p)}`;
+    }));
+    // Every color shows up with most outlines, not just one each
+    expect(pairs.size).toBeGreaterThan(FLAKE_CACHE_VARIANTS * 6);
+  });
+
+  it('draws circles from a single cell', () => {
+    const cache = createFlakeCache();
+    const entry = flakeCacheEntry(cache, 'circle', '#fff', 0, 1);
+    const ctx = target();
+    drawCachedFlake(ctx as unknown as CanvasRenderingContext2D, entry, flake(20, 99.9), 0, 0, -0.7);
+
+    const sheet = entry.sheets[entry.sheets.length - 1]!;
+    expect(sheet.canvas.width).toBe(sheet.cell);
+    expect(ctx.drawImage.mock.calls[0].slice(1, 3)).toEqual([0, 0]);
+  });
+});
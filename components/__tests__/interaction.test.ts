@@ -0,0 +1,45 @@
+import { resolveInteraction, applyPointerForce } from '../interaction';
+import { createParticle } from '../__fixtures__/particle';
+
+const flakeAt = (x: number, y: number) => createParticle({ x, y });
+
+const pointer = { x: 100, y: 100, active: true };
+
+describe('interaction', () => {
+  it('resolves defaults and stays off without options', () => {
+    expect(resolveInteraction(undefined)).toBeNull();
+    expect(resolveInteraction({})).toEqual({ mode: 'repel', radius: 120, strength: 1 });
+  });
+
+  it('repels and attracts along the line to the pointer', () => {
+    const repelled = flakeAt(120, 100);
+    applyPointerForce(repelled, pointer, resolveInteraction({ mode: 'repel' })!, 1);
+    expect(repelled.x).toBeGreaterThan(120);
+    expect(repelled.y).toBeCloseTo(100);
+
+    const attracted = flakeAt(120, 100);
+    applyPointerForce(attracted, pointer, resolveInteraction({ mode: 'attract' })!, 1);
+    expect(attracted.x).toBeLessThan(120);
+    expect(attracted.x).toBeGreaterThanOrEqual(100);
+  });
+
+  it('swirls tangentially in vortex mode', () => {
+    const flake = flakeAt(120, 100);
+    applyPointerForce(flake, pointer, resolveInteraction({ mode: 'vortex' })!, 1);
+    expect(flake.x).toBeCloseTo(120);
+    expect(flake.y).toBeGreaterThan(100);
+  });
+
+  it('scales with layer depth and ignores flakes outside the radius', () => {
+    const interaction = resolveInteraction({ radius: 50 })!;
+    const back = flakeAt(110, 100);
+    const front = flakeAt(110, 100);
+    applyPointerForce(back, pointer, interaction, 0.5);
+    applyPointerForce(front, pointer, interaction, 1.5);
+    expect(front.x - 110).toBeCloseTo((back.x - 110) * 3);
+
+    const far = flakeAt(200, 100);
+    applyPointerForce(far, pointer, interaction, 1);
+    expect(far.x).toBe(200);
+  });
+});
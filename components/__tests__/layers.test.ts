@@ -0,0 +1,58 @@
+import { DEFAULT_LAYERS, resolveLayers, layerCount, layerRadiusRange, burstLayerIndex, sameLayers } from '../layers';
+
+describe('layers', () => {
+  it('uses the default back, mid, front and camera stack without the prop', () => {
+    const layers = resolveLayers(undefined);
+    expect(layers.map((layer) => layer.name)).toEqual(['back', 'mid', 'front', 'camera']);
+    expect(layers.map((layer) => layer.wind)).toEqual([0.5, 1, 1.5, 1.5]);
+    expect(layers.map((layer) => layer.opacity)).toEqual([0.3, 0.6, 0.8, 0.8]);
+    expect(layers.map((layer) => layer.blur)).toEqual([0, 0, 3, 3]);
+    expect(layers.map((layer) => layer.settle)).toEqual([false, true, true, true]);
+    expect(resolveLayers(DEFAULT_LAYERS)).toEqual(layers);
+  });
+
+  it('fills in defaults and names unnamed layers by index', () => {
+    const [layer] = resolveLayers([{ share: 0.3 }]);
+    expect(layer).toEqual({
+      name: 'layer0',
+      share: 0.3,
+      minCount: 0,
+      radius: [1, 1],
+      radiusFrom: 'range',
+      minRadiusPx: 0,
+      speed: 1,
+      wind: 1,
+      opacity: 1,
+      blur: 0,
+      shape: 'polygon',
+      settle: true,
+    });
+  });
+
+  it('matches the original band counts and radius ranges', () => {
+    const [back, mid, front, camera] = resolveLayers(undefined);
+
+    expect([back, mid, front, camera].map((layer) => layerCount(layer, 1200))).toEqual([960, 600, 120, 4]);
+    expect([back, mid, front, camera].map((layer) => layerCount(layer, 10))).toEqual([8, 5, 5, 2]);
+
+    expect(layerRadiusRange(back, 0.2, 2.3)).toEqual([0.1, 2.3 * 0.6]);
+    expect(layerRadiusRange(mid, 0.2, 2.3)).toEqual([0.2, 2.3]);
+    expect(layerRadiusRange(front, 0.2, 2.3)).toEqual([2.3, 2.3 * 1.8]);
+    expect(layerRadiusRange(front, 0.2, 1)).toEqual([2, 1.8]);
+    expect(layerRadiusRange(camera, 0.2, 2.3)).toEqual([2.3 * 3.5, 2.3 * 5.5]);
+  });
+
+  it('compares stacks field by field', () => {
+    const stack = resolveLayers([{ share: 0.5, radius: [1, 2] }, { share: 0.1 }]);
+    expect(sameLayers(stack, resolveLayers([{ share: 0.5, radius: [1, 2] }, { share: 0.1, wind: 1 }]))).toBe(true);
+    expect(sameLayers(stack, resolveLayers([{ share: 0.5, radius: [1, 3] }, { share: 0.1 }]))).toBe(false);
+    expect(sameLayers(stack, resolveLayers([{ share: 0.5, radius: [1, 2] }, { share: 0.1, blur: 2 }]))).toBe(false);
+    expect(sameLayers(stack, resolveLayers([{ share: 0.5, radius: [1, 2] }]))).toBe(false);
+  });
+
+  it('spawns bursts into the middle of the stack', () => {
+    expect(burstLayerIndex(resolveLayers(undefined))).toBe(1);
+    expect(burstLayerIndex(resolveLayers([{ share: 1 }]))).toBe(0);
+    expect(burstLayerIndex(resolveLayers([{ share: 1 }, { share: 1 }, { share: 1 }]))).toBe(1);
+  });
+});
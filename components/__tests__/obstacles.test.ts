@@ -0,0 +1,65 @@
+import {
+  resolveObstacleElements,
+  createObstacleIds,
+  measureObstacles,
+  placeObstacles,
+  buildObstacleField,
+  findObstacleLanding,
+} from '../obstacles';
+import { depositSnow } from '../accumulation';
+
+const withRect = (element: Element, rect: { left: number; top: number; width: number; height: number }) => {
+  element.getBoundingClientRect = () => ({
+    ...rect,
+    x: rect.left,
+    y: rect.top,
+    right: rect.left + rect.width,
+    bottom: rect.top + rect.height,
+    toJSON: () => rect,
+  });
+  return element;
+};
+
+describe('obstacles', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('resolves selectors, refs and elements without duplicates', () => {
+    document.body.innerHTML = '<header class="bar"></header><div id="card"></div>';
+    const card = document.getElementById('card')!;
+
+    const elements = resolveObstacleElements(['.bar', { current: card }, card, { current: null }]);
+    expect(elements).toHaveLength(2);
+  });
+
+  it('measures rects relative to the container and keeps piles across re-measures', () => {
+    const container = withRect(document.createElement('div'), { left: 100, top: 50, width: 800, height: 600 });
+    const card = withRect(document.createElement('div'), { left: 300, top: 250, width: 200, height: 100 });
+
+    const ids = createObstacleIds();
+
+    const [first] = placeObstacles(measureObstacles([card], container, ids), []);
+    expect(first).toMatchObject({ x: 200, y: 200, width: 200 });
+
+    depositSnow(first.pile, 100, 3, 16);
+    withRect(card, { left: 300, top: 150, width: 200, height: 100 });
+    const [moved] = placeObstacles(measureObstacles([card], container, ids), [first]);
+    expect(moved.id).toBe(first.id);
+    expect(moved.y).toBe(100);
+    expect(moved.pile).toBe(first.pile);
+  });
+
+  it('lands flakes that cross the top edge during a step', () => {
+    const container = withRect(document.createElement('div'), { left: 0, top: 0, width: 800, height: 600 });
+    const card = withRect(document.createElement('div'), { left: 100, top: 300, width: 200, height: 50 });
+    const ids = createObstacleIds();
+    const field = buildObstacleField(placeObstacles(measureObstacles([card], container, ids), []), 800);
+
+    expect(findObstacleLanding(field, 150, 298, 301)?.id).toBe(ids(card));
+    // Already below the top edge (e.g. spawned inside the card): falls through
+    expect(findObstacleLanding(field, 150, 310, 312)).toBeNull();
+    // Outside the card horizontally
+    expect(findObstacleLanding(field, 50, 298, 301)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { PRESETS, DEFAULT_GUSTS, applyPreset, registerPreset, resolveGusts, resolvePreset } from '../presets';
+
+describe('presets', () => {
+  it('fills in the props that are not set', () => {
+    const flurry = resolvePreset('flurry');
+    const props = applyPreset({ preset: 'flurry', density: 50, speed: undefined, className: 'snow' }, flurry);
+
+    expect(props.density).toBe(50);
+    expect(props.speed).toBe(PRESETS.flurry.props!.speed);
+    expect(props.roughness).toBe(PRESETS.flurry.props!.roughness);
+    expect(props.className).toBe('snow');
+    expect(applyPreset({ density: 50 }, null)).toEqual({ density: 50 });
+  });
+
+  it('resolves registered names and inline presets, and ignores unknown names', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const drizzle = { props: { density: 10 } };
+    registerPreset('drizzle', drizzle);
+
+    expect(resolvePreset('drizzle')).toBe(drizzle);
+    expect(resolvePreset(drizzle)).toBe(drizzle);
+    expect(resolvePreset('monsoon')).toBeNull();
+    expect(warn).toHaveBeenCalledWith('Snowfall: Unknown preset "monsoon"');
+
+    delete PRESETS.drizzle;
+    warn.mockRestore();
+  });
+
+  it('converts the gust frequency to a chance per simulation step', () => {
+    expect(resolveGusts(undefined)).toEqual({
+      chance: DEFAULT_GUSTS.frequency / 3600,
+      strength: DEFAULT_GUSTS.strength,
+      duration: DEFAULT_GUSTS.duration,
+    });
+    expect(resolveGusts(undefined).chance).toBeCloseTo(0.0005, 10);
+
+    const gusts = resolveGusts({ frequency: 6, strength: [1, 3] });
+    expect(gusts.chance).toBeCloseTo(6 / 3600);
+    expect(gusts.strength).toEqual([1, 3]);
+    expect(gusts.duration).toEqual(DEFAULT_GUSTS.duration);
+    expect(resolveGusts({ frequency: -1 }).chance).toBe(0);
+  });
+
+  it('defines every built-in preset with gusts', () => {
+    expect(Object.keys(PRESETS)).toEqual(expect.arrayContaining(['flurry', 'blizzard', 'sleet', 'graupel']));
+    Object.values(PRESETS).forEach((preset) => {
+      expect(preset.props?.density).toBeGreaterThan(0);
+      expect(preset.gusts?.frequency).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { QUALITY_LEVELS, QUALITY_SETTINGS, createQualityGovernor, sampleFrame } from '../quality';
+
+const BUDGET = 1000 / 60;
+
+// Feed `durationMs` worth of frames of the given length and work time; returns the final level
+const run = (governor: ReturnType<typeof createQualityGovernor>, durationMs: number, frameMs: number, workMs: number) => {
+  let level = governor.level;
+  for (let t = 0; t < durationMs; t += frameMs) level = sampleFrame(governor, frameMs, workMs, BUDGET);
+  return level;
+};
+
+describe('quality', () => {
+  it('trades away more at each lower level', () => {
+    for (let i = 1; i < QUALITY_LEVELS.length; i++) {
+      const lower = QUALITY_SETTINGS[QUALITY_LEVELS[i - 1]];
+      const higher = QUALITY_SETTINGS[QUALITY_LEVELS[i]];
+      expect(lower.density).toBeLessThan(higher.density);
+      expect(lower.maxPixelRatio).toBeLessThan(higher.maxPixelRatio);
+    }
+    expect(QUALITY_SETTINGS.high).toMatchObject({ density: 1, simpleShapes: false, blur: true });
+  });
+
+  it('steps down one level at a time while frames miss the budget', () => {
+    const governor = createQualityGovernor();
+    expect(run(governor, 900, 33, 30)).toBe('high');
+    expect(run(governor, 300, 33, 30)).toBe('medium');
+    // Frames right after a change aren't judged
+    expect(run(governor, 1500, 33, 30)).toBe('medium');
+    expect(run(governor, 2000, 33, 30)).toBe('low');
+    expect(run(governor, 10000, 33, 30)).toBe('low');
+  });
+
+  it('stays put on a display capped below the budget while the work fits in it', () => {
+    const governor = createQualityGovernor();
+    expect(run(governor, 10000, 33, 2)).toBe('high');
+  });
+
+  it('steps back up after sustained headroom and ignores stalls', () => {
+    const governor = createQualityGovernor('low');
+    expect(sampleFrame(governor, 5000, 1, BUDGET)).toBe('low');
+    expect(run(governor, 4900, BUDGET, 4)).toBe('low');
+    expect(run(governor, 200, BUDGET, 4)).toBe('medium');
+
+    // Busy but on time: no headroom to step up into, no reason to step down
+    expect(run(governor, 20000, BUDGET, 12)).toBe('medium');
+  });
+
+  it('waits longer before retrying a step up that did not hold', () => {
+    const governor = createQualityGovernor('medium');
+    expect(run(governor, 5100, BUDGET, 4)).toBe('high');
+    expect(run(governor, 3500, 33, 30)).toBe('medium');
+
+    // The next attempt needs twice the headroom
+    expect(run(governor, 2000 + 9000, BUDGET, 4)).toBe('medium');
+    expect(run(governor, 1200, BUDGET, 4)).toBe('high');
+  });
+});
@@ -0,0 +1,60 @@
+import { isRainDrop, rainStreak, spawnSplash, updateSplash, RainStreak } from '../rain';
+import { createRandom } from '../random';
+import { Particle } from '../../types';
+import { createParticle } from '../__fixtures__/particle';
+
+const drop = (overrides: Partial<Particle> = {}) => createParticle({
+  x: 100,
+  y: 200,
+  prevX: 98,
+  prevY: 190,
+  opacity: 0.8,
+  shapeSeed: 12.3,
+  band: 1,
+  ...overrides,
+});
+
+describe('rain', () => {
+  it('picks rain drops by mode, about half of them when mixed', () => {
+    const particles = Array.from({ length: 1000 }, (_, i) => drop({ shapeSeed: i * 0.731 }));
+
+    expect(particles.every((p) => isRainDrop(p, 'rain'))).toBe(true);
+    expect(particles.some((p) => isRainDrop(p, 'snow'))).toBe(false);
+    const share = particles.filter((p) => isRainDrop(p, 'mixed')).length / particles.length;
+    expect(share).toBeGreaterThan(0.45);
+    expect(share).toBeLessThan(0.55);
+    expect(isRainDrop(drop({ splash: 5 }), 'rain')).toBe(false);
+  });
+
+  it('aligns the streak with the last step of motion, ending at the drop', () => {
+    const out: RainStreak = { x: 0, y: 0, dx: 0, dy: 0, width: 0 };
+    const streak = rainStreak(drop(), 1, out);
+
+    expect(streak).toBe(out);
+    expect(streak.dx).toBeCloseTo(3);
+    expect(streak.dy).toBeCloseTo(15);
+    // Head at the current position
+    expect(streak.x + streak.dx / 2).toBeCloseTo(100);
+    expect(streak.y + streak.dy / 2).toBeCloseTo(200);
+    expect(streak.width).toBe(1);
+  });
+
+  it('throws up droplets that fall back and fade out', () => {
+    const thrown: Particle[] = [];
+    spawnSplash(drop(), 580, createRandom(1), thrown);
+
+    expect(thrown.length).toBeGreaterThanOrEqual(2);
+    expect(thrown.length).toBeLessThanOrEqual(4);
+    thrown.forEach((p) => {
+      expect(p).toMatchObject({ y: 580, transient: true, band: 1, shapeSeed: 12.3 });
+      expect(p.vy).toBeLessThan(0);
+    });
+
+    const [droplet] = thrown;
+    let steps = 1;
+    while (updateSplash(droplet)) steps++;
+    expect(steps).toBe(18);
+    expect(droplet.vy).toBeGreaterThan(0);
+    expect(droplet.opacity).toBeLessThan(0.1);
+  });
+});
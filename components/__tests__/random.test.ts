@@ -0,0 +1,32 @@
+import { createRandom, createSeededRandom, hashSeed } from '../random';
+
+const take = (rand: () => number, n: number) => Array.from({ length: n }, () => rand());
+
+describe('random', () => {
+  it('produces the same sequence for the same seed', () => {
+    expect(take(createSeededRandom(42), 5)).toEqual(take(createSeededRandom(42), 5));
+    expect(take(createSeededRandom('winter'), 5)).toEqual(take(createSeededRandom('winter'), 5));
+  });
+
+  it('produces different sequences for different seeds', () => {
+    expect(take(createSeededRandom(1), 5)).not.toEqual(take(createSeededRandom(2), 5));
+  });
+
+  it('stays within [0, 1)', () => {
+    take(createSeededRandom('range'), 1000).forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('hashes string and fractional seeds to unsigned integers', () => {
+    expect(hashSeed(7)).toBe(7);
+    expect(Number.isInteger(hashSeed('snow'))).toBe(true);
+    expect(hashSeed(0.5)).toBeGreaterThanOrEqual(0);
+  });
+
+  it('falls back to Math.random without a seed and separates streams with one', () => {
+    expect(createRandom()).toBe(Math.random);
+    expect(take(createRandom(3, 'wind'), 3)).not.toEqual(take(createRandom(3, 'particles'), 3));
+  });
+});
@@ -0,0 +1,112 @@
+import { resolveLayers } from '../layers';
+import { resolveGusts } from '../presets';
+import { resolvePalette } from '../color';
+import { SceneCanvas, SceneOptions, SnowScene, createScene } from '../scene';
+
+const options: SceneOptions = {
+  seed: 7,
+  density: 40,
+  minRadius: 0.2,
+  maxRadius: 2.3,
+  roughness: 0.9,
+  transitionDuration: 0,
+  speed: 1,
+  wind: 0.4,
+  color: '#fff',
+  palette: resolvePalette(undefined, '#fff'),
+  precipitation: 'snow',
+  shape: 'circle',
+  opacity: 1,
+  gusts: resolveGusts(undefined),
+  turbulence: null,
+  accumulation: null,
+  interaction: null,
+  quality: 'high',
+  qualityLevel: 'high',
+};
+
+// A single Canvas 2D layer; every flake is stamped with drawImage at its interpolated position
+const createTestScene = () => {
+  const ctx = { drawImage: jest.fn(), clearRect: jest.fn(), setTransform: jest.fn(), globalAlpha: 1 };
+  const canvas = { width: 0, height: 0, getContext: () => ctx } as unknown as SceneCanvas;
+  const diagnostics = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  const scene = createScene(
+    [canvas],
+    { layers: resolveLayers([{ share: 1 }]), renderer: 'canvas', webglRequested: false, worker: false },
+    options,
+    { width: 400, height: 300, ratio: 1 },
+    {
+      diagnostics,
+      onRendererChange: jest.fn(),
+      onQualityChange: jest.fn(),
+      onStats: jest.fn(),
+    }
+  );
+  // Where the last frame drew each flake (the sheet canvases differ between scenes)
+  const positions = () => {
+    ctx.drawImage.mockClear();
+    scene.draw();
+    return ctx.drawImage.mock.calls.map((args) => args.slice(5) as number[]);
+  };
+  return { scene, positions, diagnostics };
+};
+
+// Step a scene through `frames` frames of `frameMs` each
+const run = (scene: SnowScene, frames: number, frameMs: number) => {
+  for (let i = 0; i < frames; i++) scene.step(frameMs);
+};
+
+describe('scene', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('moves flakes the same distance at any refresh rate', () => {
+    const at60Hz = createTestScene();
+    const at144Hz = createTestScene();
+    // 1152.3 ms either way: 69 frames at 60 Hz, 167 at 144 Hz
+    run(at60Hz.scene, 69, 16.7);
+    run(at144Hz.scene, 167, 6.9);
+
+    expect(at144Hz.scene.stats().time).toBeCloseTo(at60Hz.scene.stats().time, 6);
+    const expected = at60Hz.positions();
+    const actual = at144Hz.positions();
+    expect(actual).toHaveLength(40);
+    actual.forEach((position, index) => {
+      position.forEach((value, axis) => expect(value).toBeCloseTo(expected[index][axis], 3));
+    });
+  });
+
+  it('simulates at most 100 ms after a long stall', () => {
+    jest.useFakeTimers();
+    let now = 1000;
+    jest.spyOn(performance, 'now').mockImplementation(() => now);
+    const { scene } = createTestScene();
+
+    const frame = (elapsed: number) => {
+      now += elapsed;
+      jest.advanceTimersToNextTimer();
+    };
+    scene.start();
+    frame(50);
+    const before = scene.stats().time;
+
+    // The tab was in the background for 5 seconds
+    frame(5000);
+    expect(scene.stats().time - before).toBeCloseTo(0.1, 1);
+    scene.destroy();
+  });
+
+  it('caps a single step and ignores invalid ones', () => {
+    const { scene, diagnostics } = createTestScene();
+    scene.step(Infinity);
+    scene.step(-50);
+    scene.step(NaN);
+    expect(scene.stats().time).toBe(0);
+    expect(diagnostics.warn).toHaveBeenCalledTimes(3);
+
+    scene.step(1e9);
+    expect(scene.stats().time).toBeCloseTo(10, 1);
+  });
+});
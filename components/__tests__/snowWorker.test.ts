@@ -0,0 +1,63 @@
+import { resolveLayers } from '../layers';
+import { resolveGusts } from '../presets';
+import { resolvePalette } from '../color';
+import { SceneOptions } from '../scene';
+import { WorkerRequest } from '../workerProtocol';
+import '../snowWorker';
+
+// jsdom's window stands in for the worker scope: requests arrive as message events on it
+const send = (request: WorkerRequest) => window.dispatchEvent(new MessageEvent('message', { data: request }));
+
+const options: SceneOptions = {
+  seed: 1,
+  density: 100,
+  minRadius: 0.2,
+  maxRadius: 2.3,
+  roughness: 0.9,
+  transitionDuration: 0,
+  speed: 1,
+  wind: 0.2,
+  color: '#fff',
+  palette: resolvePalette(undefined, '#fff'),
+  precipitation: 'snow',
+  shape: 'irregular',
+  opacity: 1,
+  gusts: resolveGusts(undefined),
+  turbulence: null,
+  accumulation: null,
+  interaction: null,
+  quality: 'high',
+  qualityLevel: 'high',
+};
+
+describe('snowWorker', () => {
+  it('runs a scene on the canvases it is sent and reports back', () => {
+    const post = jest.spyOn(window, 'postMessage').mockImplementation(() => {});
+    const layers = resolveLayers(undefined);
+    // The worker is handed OffscreenCanvases; the scene draws on any canvas
+    const canvases = layers.map(() => document.createElement('canvas')) as unknown as OffscreenCanvas[];
+
+    send({
+      type: 'init',
+      canvases,
+      setup: { layers, renderer: 'canvas', webglRequested: false, worker: true },
+      options,
+      viewport: { width: 400, height: 300, ratio: 1 },
+    });
+    const events = () => post.mock.calls.map(([event]) => event);
+    expect(events()).toContainEqual({ type: 'log', level: 'info', message: 'Using Canvas 2D renderer in a worker' });
+    expect(events()).toContainEqual({ type: 'renderer', event: expect.objectContaining({ reason: 'init', renderer: 'canvas' }) });
+    expect(events()).toContainEqual({ type: 'snapshot', stats: expect.objectContaining({ worker: true, particles: expect.objectContaining({ mid: 50 }) }) });
+    expect(canvases[0].width).toBe(400);
+
+    post.mockClear();
+    send({ type: 'burst', count: 20 });
+    expect(events()).toEqual([{ type: 'snapshot', stats: expect.objectContaining({ particles: expect.objectContaining({ mid: 70 }) }) }]);
+
+    post.mockClear();
+    send({ type: 'step', dtMs: 1000 });
+    const [[snapshot]] = post.mock.calls as unknown as [[{ stats: { time: number } }]];
+    expect(snapshot.stats.time).toBeCloseTo(1, 1);
+    post.mockRestore();
+  });
+});
@@ -0,0 +1,103 @@
+import { buildSpriteSheet, drawSprite, loadSpriteSheet, spriteFor, SPRITE_CELL_SIZE } from '../sprites';
+import { Particle } from '../../types';
+
+const withSeed = (shapeSeed: number) => ({ shapeSeed } as Particle);
+
+// An image element that reports as loaded with the given size
+const loadedImage = (width: number, height: number) => {
+  const image = document.createElement('img');
+  Object.defineProperty(image, 'complete', { value: true });
+  Object.defineProperty(image, 'naturalWidth', { value: width });
+  Object.defineProperty(image, 'naturalHeight', { value: height });
+  return image;
+};
+
+// Record what is drawn into the atlas (the setup mock creates a new context on every call)
+const recordAtlas = () => {
+  const drawImage = jest.fn();
+  jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({ drawImage, getImageData: jest.fn() } as unknown as CanvasRenderingContext2D);
+  return drawImage;
+};
+
+describe('sprites', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('packs sprites into a power-of-two atlas, fitted into their cells', () => {
+    const drawImage = recordAtlas();
+    const image = loadedImage(64, 32);
+    const sprites = Array.from({ length: 5 }, () => ({ image, weight: 1, scale: 1 }));
+    const sheet = buildSpriteSheet(sprites)!;
+
+    expect(sheet.columns).toBe(4);
+    expect(sheet.atlas.width).toBe(4 * SPRITE_CELL_SIZE);
+    expect(sheet.frames.map((frame) => frame.cell)).toEqual([0, 1, 2, 3, 4]);
+
+    // Wide image: full cell width minus the margin, centered vertically; the fifth starts the second row
+    expect(drawImage.mock.calls[0]).toEqual([image, 0, 0, 64, 32, 2, 33, 124, 62]);
+    expect(drawImage.mock.calls[4].slice(5, 7)).toEqual([2, SPRITE_CELL_SIZE + 33]);
+  });
+
+  it('uses the atlas frame of each entry and skips sprites without weight', () => {
+    const drawImage = recordAtlas();
+    const atlas = loadedImage(256, 256);
+    const sheet = buildSpriteSheet([
+      { image: atlas, frame: { x: 128, y: 0, width: 128, height: 128 }, weight: 1, scale: 2 },
+      { image: atlas, weight: 0, scale: 1 },
+    ])!;
+
+    expect(sheet.frames).toEqual([{ cell: 0, scale: 2 }]);
+    expect(drawImage.mock.calls[0].slice(1, 5)).toEqual([128, 0, 128, 128]);
+    expect(buildSpriteSheet([{ image: atlas, weight: 0, scale: 1 }])).toBeNull();
+  });
+
+  it('picks sprites by weight, stably per flake', () => {
+    const image = loadedImage(16, 16);
+    const sheet = buildSpriteSheet([
+      { image, weight: 3, scale: 1 },
+      { image, weight: 1, scale: 1 },
+    ])!;
+
+    const picks = Array.from({ length: 4000 }, (_, i) => spriteFor(sheet, withSeed(i * 0.2371)).cell);
+    const share = picks.filter((cell) => cell === 0).length / picks.length;
+    expect(share).toBeGreaterThan(0.7);
+    expect(share).toBeLessThan(0.8);
+    expect(spriteFor(sheet, withSeed(12.5))).toBe(spriteFor(sheet, withSeed(12.5)));
+  });
+
+  it('draws a sprite from its cell, sized by the radius and scale', () => {
+    const image = loadedImage(16, 16);
+    const sheet = buildSpriteSheet(Array.from({ length: 3 }, () => ({ image, weight: 1, scale: 1.5 })))!;
+    const ctx = { drawImage: jest.fn() };
+
+    drawSprite(ctx as unknown as CanvasRenderingContext2D, sheet, sheet.frames[2], 2);
+    expect(ctx.drawImage).toHaveBeenCalledWith(sheet.atlas, 0, SPRITE_CELL_SIZE, SPRITE_CELL_SIZE, SPRITE_CELL_SIZE, -6, -6, 12, 12);
+  });
+
+  it('waits for images to load and leaves out the ones that fail', async () => {
+    const logged = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const pending = document.createElement('img');
+    const broken = document.createElement('img');
+
+    const sheet = loadSpriteSheet([{ src: pending, scale: 2 }, { src: broken }, { src: loadedImage(8, 8) }]);
+    Object.defineProperty(pending, 'naturalWidth', { value: 8 });
+    pending.dispatchEvent(new Event('load'));
+    broken.dispatchEvent(new Event('error'));
+
+    expect((await sheet)!.frames).toEqual([{ cell: 0, scale: 2 }, { cell: 1, scale: 1 }]);
+    expect(logged).toHaveBeenCalledTimes(1);
+    logged.mockRestore();
+  });
+
+  it('rejects an atlas tainted by a cross-origin image', () => {
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+      drawImage: jest.fn(),
+      getImageData: () => {
+        throw new DOMException('The canvas has been tainted by cross-origin data.', 'SecurityError');
+      },
+    } as unknown as CanvasRenderingContext2D);
+    const diagnostics = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    expect(buildSpriteSheet([{ image: loadedImage(8, 8), weight: 1, scale: 1 }], diagnostics)).toBeNull();
+    expect(diagnostics.error).toHaveBeenCalledWith(expect.objectContaining({ code: 'sprite-load' }));
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * @jest-environment node
+ */
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import Snowfall from '../Snowfall';
+
+describe('server rendering', () => {
+  it('renders the container without a document', () => {
+    expect(typeof document).toBe('undefined');
+    const html = renderToString(<Snowfall className="snow" density={100} renderer="webgl" debug />);
+    expect(html).toContain('class="rrs-snowfall-container snow"');
+    expect(html).not.toContain('<canvas');
+  });
+});
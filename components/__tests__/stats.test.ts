@@ -0,0 +1,35 @@
+import { SnowfallStats } from '../../types';
+import { STATS_INTERVAL_MS, createFrameStats, formatStats, recordFrame } from '../stats';
+
+describe('stats', () => {
+  it('averages frame rate and frame time over each window', () => {
+    const stats = createFrameStats();
+    let completed = 0;
+    for (let i = 0; i < 50; i++) {
+      if (recordFrame(stats, 25, i % 2 ? 4 : 6)) completed++;
+    }
+    expect(completed).toBe(Math.floor((50 * 25) / STATS_INTERVAL_MS));
+    expect(stats.fps).toBeCloseTo(40);
+    expect(stats.frameTime).toBeCloseTo(5);
+    expect(stats.frames).toBe(10);
+  });
+
+  it('formats the HUD text', () => {
+    const snapshot: SnowfallStats = {
+      paused: false,
+      suspended: false,
+      time: 12,
+      wind: 0.4,
+      renderer: 'webgl',
+      fallback: false,
+      worker: false,
+      fps: 59.7,
+      frameTime: 2.34,
+      quality: 'high',
+      particles: { total: 142, back: 80, mid: 62 },
+    };
+    expect(formatStats(snapshot)).toBe(['60 fps  2.3 ms', 'webgl, high quality', '142 flakes', '  back 80', '  mid 62', 'wind 0.40'].join('\n'));
+    expect(formatStats({ ...snapshot, renderer: 'canvas', fallback: true })).toContain('canvas (WebGL failed)');
+    expect(formatStats({ ...snapshot, worker: true })).toContain('webgl in worker, high quality');
+  });
+});
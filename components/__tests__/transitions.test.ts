@@ -0,0 +1,56 @@
+import { Particle } from '../../types';
+import { createParticle } from '../__fixtures__/particle';
+import { planMorph, retireParticle, stepTransition } from '../transitions';
+
+// A flake of radius 2 in the middle of a 1 to 3 px range
+const flake = () => createParticle({
+  x: 10,
+  y: 10,
+  opacity: 0.6,
+  vy: 0.8,
+  wobbleSpeed: 0.01,
+  swayAmplitude: 0.5,
+  shapeSeed: 12.5,
+  band: 1,
+});
+
+const step = (p: Particle, steps: number) => {
+  let alive = true;
+  for (let i = 0; i < steps; i++) alive = stepTransition(p);
+  return alive;
+};
+
+describe('transitions', () => {
+  it('eases a flake to the same place in the new radius range', () => {
+    const p = flake();
+    planMorph(p, { rMin: 1, rMax: 3 }, { rMin: 2, rMax: 6 }, 10);
+
+    step(p, 5);
+    expect(p.radius).toBeGreaterThan(2);
+    expect(p.radius).toBeLessThan(4);
+    step(p, 5);
+    expect(p.radius).toBeCloseTo(4);
+    expect(p.vy).toBeCloseTo(1.6);
+    expect(p.morph).toBeUndefined();
+  });
+
+  it('retargets a flake that is still easing from the end of its transition', () => {
+    const p = flake();
+    planMorph(p, { rMin: 1, rMax: 3 }, { rMin: 2, rMax: 6 }, 10);
+    step(p, 3);
+    planMorph(p, { rMin: 2, rMax: 6 }, { rMin: 1, rMax: 3 }, 10);
+    step(p, 10);
+    expect(p.radius).toBeCloseTo(2);
+    expect(p.vy).toBeCloseTo(0.8);
+    expect(p.swayAmplitude).toBeCloseTo(0.5);
+  });
+
+  it('fades a retired flake out and marks it one-shot', () => {
+    const p = flake();
+    retireParticle(p, 4);
+    expect(p.transient).toBe(true);
+    expect(step(p, 3)).toBe(true);
+    expect(p.opacity).toBeCloseTo(0.15);
+    expect(step(p, 1)).toBe(false);
+  });
+});
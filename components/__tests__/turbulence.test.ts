@@ -0,0 +1,56 @@
+import { DEFAULT_TURBULENCE, createTurbulenceField, resolveTurbulence, sampleTurbulence, WindVector } from '../turbulence';
+import { createRandom } from '../random';
+
+const field = createTurbulenceField(createRandom(7, 'turbulence'));
+const round = { ...DEFAULT_TURBULENCE, updraft: 1 };
+
+const sample = (x: number, y: number, settings = round, time = 3, intensity = 1): WindVector =>
+  sampleTurbulence(field, settings, x, y, time, intensity, { x: 0, y: 0 });
+
+describe('turbulence', () => {
+  it('resolves the prop, off unless set', () => {
+    expect(resolveTurbulence(undefined)).toBeNull();
+    expect(resolveTurbulence(false)).toBeNull();
+    expect(resolveTurbulence(true)).toEqual(DEFAULT_TURBULENCE);
+    expect(resolveTurbulence({ scale: 0, strength: -1, updraft: 0.2 })).toEqual({ ...DEFAULT_TURBULENCE, scale: 1, strength: 0, updraft: 0.2 });
+  });
+
+  it('builds the same field from the same seed', () => {
+    const again = createTurbulenceField(createRandom(7, 'turbulence'));
+    const other = createTurbulenceField(createRandom(8, 'turbulence'));
+    expect(again).toEqual(field);
+    expect(other.perm).not.toEqual(field.perm);
+  });
+
+  it('is divergence free with round eddies, so flakes swirl without bunching up', () => {
+    const h = 0.01;
+    for (let i = 0; i < 20; i++) {
+      const x = 37 + i * 53.1;
+      const y = 11 + i * 29.7;
+      const divergence = (sample(x + h, y).x - sample(x - h, y).x) / (2 * h)
+        + (sample(x, y + h).y - sample(x, y - h).y) / (2 * h);
+      expect(Math.abs(divergence)).toBeLessThan(1e-5);
+    }
+  });
+
+  it('varies across the screen and over time', () => {
+    const speeds = Array.from({ length: 50 }, (_, i) => sample(i * 97.3, i * 41.9));
+    const horizontal = speeds.map((v) => v.x);
+    expect(Math.max(...horizontal) - Math.min(...horizontal)).toBeGreaterThan(DEFAULT_TURBULENCE.strength);
+    expect(sample(300, 200, round, 3)).not.toEqual(sample(300, 200, round, 8));
+  });
+
+  it('scales with strength, intensity and updraft', () => {
+    const base = sample(120, 340);
+    const gusty = sample(120, 340, round, 3, 2);
+    expect(gusty.x).toBeCloseTo(base.x * 2);
+    expect(gusty.y).toBeCloseTo(base.y * 2);
+
+    const level = sample(120, 340, { ...round, updraft: 0 });
+    expect(level.x).toBeCloseTo(base.x);
+    expect(Math.abs(level.y)).toBe(0);
+
+    const still = sample(120, 340, { ...round, strength: 0 });
+    expect(Math.abs(still.x) + Math.abs(still.y)).toBe(0);
+  });
+});
@@ -0,0 +1,148 @@
+import { AccumulationOptions } from '../types';
+
+// Width of one heightmap column in CSS pixels
+const COLUMN_WIDTH = 4;
+
+// Steepest slope (height difference between neighbouring columns, in px) the snowbank holds
+// before it slumps. Keeps piles from growing into single-column spikes.
+const MAX_SLOPE = 1.5;
+
+// Fraction of a landed flake's area that turns into settled snow
+const DEPOSIT_SCALE = 0.6;
+
+export interface ResolvedAccumulation {
+  maxDepth: number;
+  maxObstacleDepth: number;
+  meltRate: number;
+}
+
+/** Settings used when `accumulate` is on without options (and for obstacle piles when it is off) */
+export const DEFAULT_ACCUMULATION: ResolvedAccumulation = {
+  maxDepth: 80,
+  maxObstacleDepth: 16,
+  meltRate: 0,
+};
+
+/** Per-column heightmap of settled snow, along the bottom edge or on top of an obstacle */
+export interface SnowGround {
+  heights: Float32Array;
+  columnWidth: number;
+  width: number;
+}
+
+/** Normalize the `accumulate` prop. Returns null when accumulation is off. */
+export function resolveAccumulation(
+  accumulate: boolean | AccumulationOptions | undefined
+): ResolvedAccumulation | null {
+  if (!accumulate) return null;
+  const options = accumulate === true ? {} : accumulate;
+  return {
+    maxDepth: Math.max(0, options.maxDepth ?? DEFAULT_ACCUMULATION.maxDepth),
+    maxObstacleDepth: Math.max(0, options.maxObstacleDepth ?? DEFAULT_ACCUMULATION.maxObstacleDepth),
+    meltRate: Math.max(0, options.meltRate ?? DEFAULT_ACCUMULATION.meltRate),
+  };
+}
+
+/** Create a heightmap for the given width, resampling an existing one so a resize keeps the snow. */
+export function createGround(width: number, previous?: SnowGround | null): SnowGround {
+  const columns = Math.max(1, Math.ceil(width / COLUMN_WIDTH) + 1);
+  const heights = new Float32Array(columns);
+
+  if (previous && previous.heights.length > 0) {
+    const ratio = (previous.heights.length - 1) / Math.max(1, columns - 1);
+    for (let i = 0; i < columns; i++) {
+      heights[i] = previous.heights[Math.round(i * ratio)];
+    }
+  }
+
+  return { heights, columnWidth: COLUMN_WIDTH, width };
+}
+
+function columnAt(ground: SnowGround, x: number): number {
+  const index = Math.round(x / ground.columnWidth);
+  return Math.max(0, Math.min(ground.heights.length - 1, index));
+}
+
+/** Height of the settled snow at horizontal position x */
+export function groundHeightAt(ground: SnowGround, x: number): number {
+  return ground.heights[columnAt(ground, x)];
+}
+
+/** Add a landed flake of the given radius at x, spread over the columns it covers */
+export function depositSnow(ground: SnowGround, x: number, radius: number, maxDepth: number): void {
+  const { heights, columnWidth } = ground;
+  const first = columnAt(ground, x - radius);
+  const last = columnAt(ground, x + radius);
+  const amount = (Math.PI * radius * radius * DEPOSIT_SCALE) / (columnWidth * (last - first + 1));
+
+  for (let i = first; i <= last; i++) {
+    heights[i] = Math.min(maxDepth, heights[i] + amount);
+  }
+}
+
+/** Melt by `amount` px everywhere and let steep slopes slump into their neighbours */
+export function settleGround(ground: SnowGround, amount: number): void {
+  const { heights } = ground;
+
+  for (let i = 0; i < heights.length; i++) {
+    if (amount > 0) heights[i] = Math.max(0, heights[i] - amount);
+    if (i === 0) continue;
+
+    const diff = heights[i] - heights[i - 1];
+    if (Math.abs(diff) > MAX_SLOPE) {
+      const transfer = (Math.abs(diff) - MAX_SLOPE) / 2 * Math.sign(diff);
+      heights[i] -= transfer;
+      heights[i - 1] += transfer;
+    }
+  }
+}
+
+/** Remove all settled snow */
+export function clearGround(ground: SnowGround): void {
+  ground.heights.fill(0);
+}
+
+/** Height of column i averaged with its neighbours, for a soft snowbank outline */
+export function smoothedHeight(ground: SnowGround, i: number): number {
+  const { heights } = ground;
+  const prev = heights[Math.max(0, i - 1)];
+  const next = heights[Math.min(heights.length - 1, i + 1)];
+  return (prev + heights[i] * 2 + next) / 4;
+}
+
+/**
+ * Draw a snowbank on a Canvas 2D context. `baseY` is the surface the snow rests on (the bottom
+ * edge for the ground, the top edge for an obstacle) and `offsetX` the left edge of the heightmap.
+ */
+export function drawGroundCanvas(
+  ctx: CanvasRenderingContext2D,
+  ground: SnowGround,
+  baseY: number,
+  color: string,
+  opacity: number,
+  offsetX = 0
+): void {
+  const { heights, columnWidth } = ground;
+
+  ctx.globalAlpha = Math.max(0, Math.min(1, opacity));
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.moveTo(offsetX, baseY);
+
+  // Curve through the midpoints between columns for a smooth outline
+  let prevX = offsetX;
+  let prevY = baseY - smoothedHeight(ground, 0);
+  ctx.lineTo(prevX, prevY);
+  for (let i = 1; i < heights.length; i++) {
+    const x = offsetX + i * columnWidth;
+    const y = baseY - smoothedHeight(ground, i);
+    ctx.quadraticCurveTo(prevX, prevY, (prevX + x) / 2, (prevY + y) / 2);
+    prevX = x;
+    prevY = y;
+  }
+  ctx.lineTo(prevX, prevY);
+
+  ctx.lineTo(prevX, baseY);
+  ctx.closePath();
+  ctx.fill();
+}
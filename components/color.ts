@@ -0,0 +1,168 @@
+import { PaletteOptions, Particle } from '../types';
+
+/** Color with channels and alpha in 0..1 */
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/** A parsed flake color, with the CSS string the Canvas 2D renderer draws it with */
+export interface ColorSwatch {
+  rgba: RGBA;
+  css: string;
+}
+
+// Number of colors sampled from a gradient palette
+const GRADIENT_STEPS = 32;
+
+// Used when a color can't be parsed (the renderers' historical fallback)
+const WHITE: RGBA = { r: 1, g: 1, b: 1, a: 1 };
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// A number or percentage; `scale` is the value 100% maps to
+function parseChannel(token: string, scale: number): number {
+  const value = parseFloat(token);
+  if (Number.isNaN(value)) return NaN;
+  return token.endsWith('%') ? (value / 100) * scale : value;
+}
+
+// Hue in degrees, from deg, rad, grad, turn or a bare number
+function parseHue(token: string): number {
+  const value = parseFloat(token);
+  if (token.endsWith('turn')) return value * 360;
+  if (token.endsWith('grad')) return value * 0.9;
+  if (token.endsWith('rad')) return (value * 180) / Math.PI;
+  return value;
+}
+
+function parseHex(hex: string): RGBA | null {
+  if (!/^[\da-f]+$/i.test(hex)) return null;
+  // #rgb and #rgba: every digit is doubled
+  const full = hex.length === 3 || hex.length === 4 ? hex.replace(/./g, (digit) => digit + digit) : hex;
+  if (full.length !== 6 && full.length !== 8) return null;
+
+  const channel = (index: number) => parseInt(full.slice(index, index + 2), 16) / 255;
+  return { r: channel(0), g: channel(2), b: channel(4), a: full.length === 8 ? channel(6) : 1 };
+}
+
+// Arguments of a functional notation, comma or space separated, with an optional `/ alpha`
+function splitArgs(args: string): string[] {
+  return args.trim().split(/\s*[,/]\s*|\s+/).filter(Boolean);
+}
+
+function parseRgb(args: string): RGBA | null {
+  const [r, g, b, a = '1'] = splitArgs(args);
+  const rgba = {
+    r: clamp01(parseChannel(r, 255) / 255),
+    g: clamp01(parseChannel(g, 255) / 255),
+    b: clamp01(parseChannel(b, 255) / 255),
+    a: clamp01(parseChannel(a, 1)),
+  };
+  return [rgba.r, rgba.g, rgba.b, rgba.a].some(Number.isNaN) ? null : rgba;
+}
+
+function parseHsl(args: string): RGBA | null {
+  const [h, s, l, a = '1'] = splitArgs(args);
+  const hue = ((parseHue(h) % 360) + 360) % 360;
+  const saturation = clamp01(parseChannel(s, 100) / 100);
+  const lightness = clamp01(parseChannel(l, 100) / 100);
+  const alpha = clamp01(parseChannel(a, 1));
+  if ([hue, saturation, lightness, alpha].some(Number.isNaN)) return null;
+
+  // CSS Color 4 hsl-to-rgb
+  const k = (n: number) => (n + hue / 30) % 12;
+  const chroma = saturation * Math.min(lightness, 1 - lightness);
+  const f = (n: number) => lightness - chroma * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return { r: f(0), g: f(8), b: f(4), a: alpha };
+}
+
+// Hex, rgb() and hsl() are parsed directly; the remaining CSS syntaxes are not
+function parseDirect(color: string): RGBA | null {
+  if (color.startsWith('#')) return parseHex(color.slice(1));
+  if (color === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+
+  const functional = /^(rgba?|hsla?)\((.*)\)$/.exec(color);
+  if (!functional) return null;
+  return functional[1].startsWith('rgb') ? parseRgb(functional[2]) : parseHsl(functional[2]);
+}
+
+// Context used to normalize named colors and other syntaxes through the browser (created on first use)
+let resolver: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null | undefined;
+
+// Let the browser normalize the color to hex or rgba(). Invalid colors leave fillStyle unchanged,
+// so two different sentinels tell them apart from the sentinels themselves.
+function parseWithCanvas(color: string): RGBA | null {
+  if (resolver === undefined) {
+    if (typeof document !== 'undefined') {
+      resolver = document.createElement('canvas').getContext('2d');
+    } else {
+      // In a worker (renderer="worker") an offscreen context normalizes colors the same way
+      resolver = typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(1, 1).getContext('2d') : null;
+    }
+  }
+  if (!resolver) return null;
+
+  for (const sentinel of ['#000000', '#ffffff']) {
+    resolver.fillStyle = sentinel;
+    resolver.fillStyle = color;
+    const normalized = String(resolver.fillStyle).toLowerCase();
+    if (normalized !== sentinel) return parseDirect(normalized);
+  }
+  return null;
+}
+
+const cache = new Map<string, RGBA>();
+
+/**
+ * Parse any CSS color: hex (3, 4, 6 or 8 digits), rgb()/rgba(), hsl()/hsla(), named colors and,
+ * in the browser, any other syntax it understands. Unparseable colors fall back to white.
+ */
+export function parseColor(color: string): RGBA {
+  const key = color.trim().toLowerCase();
+  let rgba = cache.get(key);
+  if (!rgba) {
+    rgba = parseDirect(key) ?? parseWithCanvas(key) ?? WHITE;
+    cache.set(key, rgba);
+  }
+  return rgba;
+}
+
+function toSwatch(rgba: RGBA): ColorSwatch {
+  const channel = (value: number) => Math.round(value * 255);
+  return { rgba, css: `rgba(${channel(rgba.r)}, ${channel(rgba.g)}, ${channel(rgba.b)}, ${rgba.a})` };
+}
+
+// Linear interpolation between color stops, at t in 0..1
+function sampleGradient(stops: RGBA[], t: number): RGBA {
+  if (stops.length === 1) return stops[0];
+  const position = t * (stops.length - 1);
+  const index = Math.min(stops.length - 2, Math.floor(position));
+  const local = position - index;
+  const from = stops[index];
+  const to = stops[index + 1];
+  const mix = (a: number, b: number) => a + (b - a) * local;
+  return { r: mix(from.r, to.r), g: mix(from.g, to.g), b: mix(from.b, to.b), a: mix(from.a, to.a) };
+}
+
+/**
+ * Normalize the `palette` prop into the swatches flakes pick from. Without a palette every flake
+ * uses `color`; a gradient palette is sampled into evenly spaced swatches.
+ */
+export function resolvePalette(palette: string[] | PaletteOptions | undefined, color: string): ColorSwatch[] {
+  const options = Array.isArray(palette) ? { colors: palette } : palette;
+  const stops = (options?.colors ?? []).map(parseColor);
+  if (stops.length === 0) return [toSwatch(parseColor(color))];
+  if (options?.mode !== 'gradient') return stops.map(toSwatch);
+
+  return Array.from({ length: GRADIENT_STEPS }, (_, i) => toSwatch(sampleGradient(stops, i / (GRADIENT_STEPS - 1))));
+}
+
+/** The swatch a flake is drawn with. Derived from its shape seed, so it is stable and follows the seed. */
+export function swatchFor(palette: ColorSwatch[], p: Particle): ColorSwatch {
+  if (palette.length === 1) return palette[0];
+  const t = (p.shapeSeed * 7.31) % 1;
+  return palette[Math.min(palette.length - 1, Math.floor(t * palette.length))];
+}
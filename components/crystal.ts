@@ -0,0 +1,120 @@
+// Six-fold dendrite crystals. The Canvas 2D renderer draws them with drawCrystal and the WebGL
+// renderer evaluates the same geometry as a signed-distance function (CRYSTAL_GLSL), so both
+// derive every parameter from one seed with the constants below (the seed of the flake's
+// outline variant, see variantSeed in flakeCache).
+
+/** Geometry in units of the arm length, and the per-parameter multipliers of the seed hash */
+export const CRYSTAL = {
+  coreMin: 0.12, // Radius of the hexagonal plate at the center
+  coreRange: 0.1,
+  widthMin: 0.12, // Thickness of arms and branches
+  widthRange: 0.06,
+  reachMin: 0.35, // Branch length as a fraction of the arm left beyond the branch point
+  reachRange: 0.4,
+  coreHash: 0.6180339887,
+  widthHash: 0.7548776662,
+  branchHash: 0.569840291,
+  reachHash: 0.8191725134,
+};
+
+/** Radius below which a crystal is drawn as a plain disc (the arms would be thinner than a pixel) */
+export const CRYSTAL_MIN_RADIUS = 1.5;
+
+// Crystals are spindly, so the arms reach a bit further than the radius of a solid flake
+const ARM_SCALE = 1.2;
+
+const SIN_60 = Math.sqrt(3) / 2;
+
+// Fractional part of seed * k. Well conditioned for seeds in 0..1000, so float32 on the GPU agrees.
+const crystalHash = (seed: number, k: number) => {
+  const value = seed * k;
+  return value - Math.floor(value);
+};
+
+/** Branch pairs per arm (2 or 3) */
+export const crystalBranchCount = (seed: number) => 2 + Math.floor(crystalHash(seed, CRYSTAL.branchHash) * 2);
+
+/** Position of branch i along the arm (0 = center, 1 = tip) */
+export const crystalBranchAt = (i: number, count: number) => 0.05 + (0.85 * (i + 1)) / (count + 1);
+
+/**
+ * Draw a crystal centered on the origin of an already translated and rotated context,
+ * in the current fill style.
+ */
+export function drawCrystal(ctx: CanvasRenderingContext2D, seed: number, radius: number): void {
+  const arm = radius * ARM_SCALE;
+  const core = (CRYSTAL.coreMin + CRYSTAL.coreRange * crystalHash(seed, CRYSTAL.coreHash)) * arm;
+  const width = (CRYSTAL.widthMin + CRYSTAL.widthRange * crystalHash(seed, CRYSTAL.widthHash)) * arm;
+  const reach = CRYSTAL.reachMin + CRYSTAL.reachRange * crystalHash(seed, CRYSTAL.reachHash);
+  const count = crystalBranchCount(seed);
+
+  // Hexagonal plate, corners pointing along the arms
+  ctx.beginPath();
+  for (let k = 0; k < 6; k++) {
+    const angle = (k * Math.PI) / 3;
+    ctx.lineTo(Math.cos(angle) * core, Math.sin(angle) * core);
+  }
+  ctx.closePath();
+  ctx.fill();
+
+  // Arms with branches leaving at 60 degrees on both sides, drawn along +x and rotated into place
+  // (six turns of 60 degrees leave the context as it was)
+  ctx.strokeStyle = ctx.fillStyle;
+  ctx.lineWidth = width;
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  for (let k = 0; k < 6; k++) {
+    ctx.moveTo(0, 0);
+    ctx.lineTo(arm, 0);
+    for (let i = 0; i < count; i++) {
+      const at = crystalBranchAt(i, count) * arm;
+      const length = (arm - at) * reach;
+      ctx.moveTo(at + length * 0.5, length * SIN_60);
+      ctx.lineTo(at, 0);
+      ctx.lineTo(at + length * 0.5, -length * SIN_60);
+    }
+    ctx.rotate(Math.PI / 3);
+  }
+  ctx.stroke();
+}
+
+const glslFloat = (value: number) => (Number.isInteger(value) ? value.toFixed(1) : String(value));
+
+/** GLSL signed distance to a crystal with unit arm length (negative inside), for the fragment shader */
+export const CRYSTAL_GLSL = `
+float crystalHash(float seed, float k) {
+  return fract(seed * k);
+}
+
+float segmentDistance(vec2 p, vec2 a, vec2 b) {
+  vec2 pa = p - a;
+  vec2 ba = b - a;
+  float h = clamp(dot(pa, ba) / dot(ba, ba), 0.0, 1.0);
+  return length(pa - ba * h);
+}
+
+float crystalDistance(vec2 p, float seed) {
+  // Fold into the 0-30 degree sector: the crystal is symmetric under 60 degree rotation and mirroring
+  float sector = 1.0471976;
+  float angle = mod(atan(p.y, p.x), sector);
+  angle = min(angle, sector - angle);
+  vec2 q = length(p) * vec2(cos(angle), sin(angle));
+
+  float core = ${glslFloat(CRYSTAL.coreMin)} + ${glslFloat(CRYSTAL.coreRange)} * crystalHash(seed, ${glslFloat(CRYSTAL.coreHash)});
+  float halfWidth = (${glslFloat(CRYSTAL.widthMin)} + ${glslFloat(CRYSTAL.widthRange)} * crystalHash(seed, ${glslFloat(CRYSTAL.widthHash)})) * 0.5;
+  float reach = ${glslFloat(CRYSTAL.reachMin)} + ${glslFloat(CRYSTAL.reachRange)} * crystalHash(seed, ${glslFloat(CRYSTAL.reachHash)});
+  float count = 2.0 + floor(crystalHash(seed, ${glslFloat(CRYSTAL.branchHash)}) * 2.0);
+
+  // Hexagonal plate (edge normal at 30 degrees), then the arm along +x
+  float d = dot(q, vec2(0.8660254, 0.5)) - core * 0.8660254;
+  d = min(d, segmentDistance(q, vec2(0.0), vec2(1.0, 0.0)) - halfWidth);
+
+  for (int i = 0; i < 3; i++) {
+    if (float(i) >= count) break;
+    float at = 0.05 + 0.85 * (float(i) + 1.0) / (count + 1.0);
+    vec2 start = vec2(at, 0.0);
+    d = min(d, segmentDistance(q, start, start + (1.0 - at) * reach * vec2(0.5, 0.8660254)) - halfWidth);
+  }
+  return d;
+}
+`;
@@ -0,0 +1,29 @@
+import { SnowfallError, SnowfallLogger } from '../types';
+
+/** Where the component's messages go: the `logger` prop and, for errors, `onError` as well */
+export interface Diagnostics {
+  info(message: string): void;
+  warn(message: string): void;
+  error(error: SnowfallError): void;
+}
+
+/** The logger and error callback in effect, looked up on every message so prop changes apply */
+export type DiagnosticSinks = () => {
+  logger?: SnowfallLogger;
+  onError?: (error: SnowfallError) => void;
+};
+
+export function createDiagnostics(sinks: DiagnosticSinks): Diagnostics {
+  return {
+    info: (message) => (sinks().logger ?? console).info?.(`Snowfall: ${message}`),
+    warn: (message) => (sinks().logger ?? console).warn?.(`Snowfall: ${message}`),
+    error: (error) => {
+      const { logger = console, onError } = sinks();
+      logger.error?.(`Snowfall: ${error.message}`);
+      onError?.(error);
+    },
+  };
+}
+
+/** Messages to the console, for helpers used outside a component */
+export const consoleDiagnostics = createDiagnostics(() => ({}));
@@ -0,0 +1,627 @@
+import { QualityLevel, RendererChangeEvent, SnowEngine, SnowEngineOptions, SnowfallStats, WeatherPreset } from '../types';
+import { isWebGLSupported } from './WebGLRenderer';
+import { resolveAccumulation } from './accumulation';
+import { ObstacleRect, createObstacleIds, resolveObstacleElements, measureObstacles } from './obstacles';
+import { PointerState, resolveInteraction } from './interaction';
+import { resolveTurbulence } from './turbulence';
+import { ColorSwatch, resolvePalette } from './color';
+import { ResolvedLayer, resolveLayers, sameLayers } from './layers';
+import { SpriteSheet, loadSpriteSheet, spriteValues } from './sprites';
+import { ResolvedGusts, resolvePreset, applyPreset, resolveGusts } from './presets';
+import { DEFAULT_TRANSITION_MS } from './transitions';
+import { QUALITY_SETTINGS } from './quality';
+import { formatStats } from './stats';
+import { createDiagnostics } from './diagnostics';
+import { SceneEvents, SceneOptions, SceneSetup, SnowScene, createScene, emptyStats } from './scene';
+import { canRenderInWorker, createWorkerScene } from './workerScene';
+
+// Layer canvases fill the container and let clicks through to the page
+const canvasBaseCss = 'position: absolute; top: 0; right: 0; bottom: 0; left: 0; width: 100%; height: 100%; display: block; pointer-events: none;';
+
+// Debug HUD in the top left corner, over the canvases
+const hudCss = 'position: absolute; top: 8px; left: 8px; margin: 0; padding: 6px 8px; border-radius: 4px; background: rgba(0, 0, 0, 0.6); color: #fff; font: 11px/1.4 ui-monospace, monospace; white-space: pre;';
+
+// Device pixels per CSS pixel for the canvas backing stores, capped to limit the fill-rate cost
+const resolvePixelRatio = (pixelRatio: number | 'auto', maxPixelRatio: number) => {
+  const ratio = pixelRatio === 'auto'
+    ? (typeof window !== 'undefined' && window.devicePixelRatio) || 1
+    : pixelRatio;
+  return Math.max(0.25, Math.min(maxPixelRatio, ratio));
+};
+
+// Set up again whenever one of the `deps` changes, after tearing down the previous setup (like a React effect)
+function createOptionEffect() {
+  let current: unknown[] | null = null;
+  let cleanup: (() => void) | undefined;
+  return {
+    sync(deps: unknown[], setup: () => (() => void) | void) {
+      if (current?.length === deps.length && deps.every((dep, index) => Object.is(dep, current![index]))) return;
+      cleanup?.();
+      current = deps;
+      const teardown = setup();
+      cleanup = typeof teardown === 'function' ? teardown : undefined;
+    },
+    dispose() {
+      cleanup?.();
+      cleanup = undefined;
+      current = null;
+    },
+  };
+}
+
+/**
+ * Run a snowfall in `container` without React: the engine adds a canvas per layer (and the debug
+ * HUD) to it and follows the options until destroyed. The container should be positioned (the
+ * canvases fill it absolutely) and sized; it is observed for resizes.
+ */
+export function createSnowEngine(container: HTMLElement, initialOptions: SnowEngineOptions = {}): SnowEngine {
+  let options = initialOptions;
+  let destroyed = false;
+
+  // Messages go to the `logger` option (console by default), errors to `onError` as well. The
+  // options are looked up per message, so the scene always reports to the current ones.
+  const diagnostics = createDiagnostics(() => ({ logger: options.logger, onError: options.onError }));
+
+  // Resolved values that are only recomputed when their inputs change
+  let presetInput: SnowEngineOptions['preset'] | null = null;
+  let weather: WeatherPreset | null = null;
+  let gusts: ResolvedGusts = resolveGusts(undefined);
+  let layersInput: SnowEngineOptions['layers'] | null = null;
+  let layerStack: ResolvedLayer[] = [];
+  let paletteInput: [SnowEngineOptions['palette'], string] | null = null;
+  let flakePalette: ColorSwatch[] = [];
+
+  // Level picked by the governor while `quality` is 'auto' (see the scene's animation loop)
+  let autoQuality: QualityLevel = 'high';
+
+  // Set once the worker of `renderer: 'worker'` fails; the page draws from then on
+  let workerFailed = false;
+  // Why the next scene is mounted, for its first `onRendererChange` report
+  let mountReason: RendererChangeEvent['reason'] = 'init';
+
+  const webglSupported = isWebGLSupported();
+
+  // The options with defaults and preset applied, resolved for the scene
+  const resolve = () => {
+    if (options.preset !== presetInput) {
+      presetInput = options.preset;
+      weather = resolvePreset(options.preset, diagnostics);
+      gusts = resolveGusts(weather?.gusts);
+    }
+    const {
+      density = 1200,
+      speed = 1.2,
+      wind = 0.2,
+      color = '#ffffff',
+      palette,
+      precipitation = 'snow',
+      shape = 'irregular',
+      sprites,
+      minRadius = 0.2,
+      maxRadius = 2.3,
+      roughness = 0.9,
+      transitionDuration = DEFAULT_TRANSITION_MS,
+      opacity = 1.0,
+      renderer = 'auto',
+      seed,
+      accumulate,
+      obstacles,
+      turbulence,
+      interaction,
+      pauseWhenOffscreen = true,
+      maxFps,
+      pixelRatio = 'auto',
+      maxPixelRatio = 2,
+      quality = 'auto',
+      debug = false,
+      layers,
+    } = applyPreset(options, weather);
+
+    if (layers !== layersInput) {
+      layersInput = layers;
+      // An inline array of the same layers keeps the stack, so the scene isn't remounted
+      const resolved = resolveLayers(layers);
+      if (!sameLayers(resolved, layerStack)) layerStack = resolved;
+    }
+    if (!paletteInput || paletteInput[0] !== palette || paletteInput[1] !== color) {
+      paletteInput = [palette, color];
+      flakePalette = resolvePalette(palette, color);
+    }
+
+    const qualityLevel = quality === 'auto' ? autoQuality : quality;
+    const qualitySettings = QUALITY_SETTINGS[qualityLevel];
+    const pointerInteraction = resolveInteraction(interaction);
+
+    // Simulate and draw in a worker, where the canvases can be transferred to one ('auto' otherwise)
+    const inWorker = renderer === 'worker' && !workerFailed && canRenderInWorker();
+    const useWebGL = renderer !== 'canvas' && webglSupported;
+    // Draw every layer into the back canvas from one WebGL context, with depth of field in the shader
+    const singleContext = useWebGL && renderer === 'webgl-single';
+
+    const sceneOptions: SceneOptions = {
+      seed,
+      density,
+      minRadius,
+      maxRadius,
+      roughness,
+      transitionDuration,
+      speed,
+      wind,
+      color,
+      palette: flakePalette,
+      precipitation,
+      shape,
+      opacity,
+      gusts,
+      turbulence: resolveTurbulence(turbulence),
+      accumulation: resolveAccumulation(accumulate),
+      interaction: pointerInteraction,
+      maxFps,
+      quality,
+      qualityLevel,
+    };
+
+    return {
+      sceneOptions,
+      layerStack,
+      renderer,
+      inWorker,
+      // What draws the canvases. A canvas can only have one context type, and one transferred to
+      // a worker can't be drawn on from the page, so each mode gets new canvas elements.
+      canvasMode: inWorker ? 'worker' as const : singleContext ? 'webgl-single' as const : useWebGL ? 'webgl' as const : 'canvas' as const,
+      wind,
+      sprites,
+      obstacles,
+      interactive: pointerInteraction !== null,
+      pauseWhenOffscreen,
+      pixelRatio,
+      // The quality level caps the resolution further
+      maxPixelRatio: Math.min(maxPixelRatio, qualitySettings.maxPixelRatio),
+      qualityLevel,
+      blur: qualitySettings.blur,
+      debug,
+    };
+  };
+  let state = resolve();
+
+  // The running scene and its canvases, one per layer, back to front
+  let scene: SnowScene | null = null;
+  let canvases: HTMLCanvasElement[] = [];
+  // Debug HUD, updated with each stats window
+  let hud: HTMLPreElement | null = null;
+
+  // Pointer position relative to the container (only tracked while `interaction` is set)
+  const pointer: PointerState = { x: 0, y: 0, active: false };
+  // Measured obstacle rects, relative to the container (the scene keeps their snow piles)
+  let obstacleRects: ObstacleRect[] | null = null;
+  // Stable ids, so piles stay with their element across measurements
+  const obstacleIds = createObstacleIds();
+  // Sprite atlas, once the `sprites` images have loaded. Until then flakes are drawn with `shape`.
+  let spriteSheet: SpriteSheet | null = null;
+  // Wind set through setWind; a new `wind` option takes control back
+  let windOverride: number | null = null;
+
+  // Playback state: paused through the API, or suspended to save power (page hidden, container offscreen)
+  let paused = false;
+  const suspended = { hidden: false, offscreen: false };
+
+  const isRunnable = () => !paused && !suspended.hidden && !suspended.offscreen;
+
+  // Start or stop the animation loop to match the paused/suspended state
+  const syncLoop = () => {
+    if (isRunnable()) {
+      scene?.start();
+    } else {
+      scene?.stop();
+    }
+  };
+
+  // Snapshot for getStats(), onStats and the debug HUD
+  const getStats = (): SnowfallStats => ({
+    paused,
+    suspended: suspended.hidden || suspended.offscreen,
+    ...(scene?.stats() ?? emptyStats(state.layerStack, state.qualityLevel, false)),
+  });
+
+  const viewport = () => ({
+    width: container.clientWidth,
+    height: container.clientHeight,
+    ratio: resolvePixelRatio(state.pixelRatio, state.maxPixelRatio),
+  });
+
+  // CSS blur of a layer's canvas: a compositor filter, except in single-context mode (drawn by the shader)
+  const layerFilter = (layer: ResolvedLayer) => (
+    layer.blur > 0 && state.canvasMode !== 'webgl-single' && state.blur ? `blur(${layer.blur}px)` : ''
+  );
+
+  // Track the pointer at the window level: the container stays `pointer-events: none` so
+  // clicks still reach the page underneath
+  const trackPointer = () => {
+    if (!state.interactive) {
+      pointer.active = false;
+      scene?.setPointer(pointer);
+      return;
+    }
+
+    const moveTo = (clientX: number, clientY: number) => {
+      const rect = container.getBoundingClientRect();
+      pointer.x = clientX - rect.left;
+      pointer.y = clientY - rect.top;
+      pointer.active = true;
+      scene?.setPointer(pointer);
+    };
+    const release = () => {
+      pointer.active = false;
+      scene?.setPointer(pointer);
+    };
+
+    const handlePointer = (e: PointerEvent) => moveTo(e.clientX, e.clientY);
+    // relatedTarget is null when the pointer leaves the window
+    const handlePointerOut = (e: PointerEvent) => {
+      if (!e.relatedTarget) release();
+    };
+    const handleTouch = (e: TouchEvent) => {
+      const touch = e.touches[0];
+      if (touch) {
+        moveTo(touch.clientX, touch.clientY);
+      } else {
+        release();
+      }
+    };
+
+    window.addEventListener('pointermove', handlePointer, { passive: true });
+    window.addEventListener('pointerdown', handlePointer, { passive: true });
+    window.addEventListener('pointerout', handlePointerOut);
+    window.addEventListener('touchstart', handleTouch, { passive: true });
+    window.addEventListener('touchmove', handleTouch, { passive: true });
+    window.addEventListener('touchend', handleTouch);
+    window.addEventListener('touchcancel', release);
+    window.addEventListener('blur', release);
+
+    return () => {
+      window.removeEventListener('pointermove', handlePointer);
+      window.removeEventListener('pointerdown', handlePointer);
+      window.removeEventListener('pointerout', handlePointerOut);
+      window.removeEventListener('touchstart', handleTouch);
+      window.removeEventListener('touchmove', handleTouch);
+      window.removeEventListener('touchend', handleTouch);
+      window.removeEventListener('touchcancel', release);
+      window.removeEventListener('blur', release);
+    };
+  };
+
+  // Measure obstacles, and re-measure on scroll, resize and layout changes (coalesced to one per frame)
+  const trackObstacles = () => {
+    const { obstacles } = state;
+    if (!obstacles || obstacles.length === 0) {
+      obstacleRects = null;
+      scene?.setObstacles(null);
+      return;
+    }
+
+    let frame = 0;
+    let observed: Element[] = [];
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(measure);
+    };
+
+    const resizeObserver = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(schedule) : null;
+    // Class/style changes and inserted nodes can move obstacles without resizing them. The canvases
+    // and HUD in the container change on every resize and stats window, which moves nothing else.
+    const mutationObserver = typeof MutationObserver !== 'undefined'
+      ? new MutationObserver((records) => {
+        if (records.some((record) => !container.contains(record.target))) schedule();
+      })
+      : null;
+
+    const measure = () => {
+      frame = 0;
+      const elements = resolveObstacleElements(obstacles);
+      obstacleRects = measureObstacles(elements, container, obstacleIds);
+      scene?.setObstacles(obstacleRects);
+
+      // Only (un)observe elements that changed: observing fires an initial callback
+      if (resizeObserver) {
+        observed.forEach((element) => {
+          if (!elements.includes(element)) resizeObserver.unobserve(element);
+        });
+        elements.forEach((element) => {
+          if (!observed.includes(element)) resizeObserver.observe(element);
+        });
+        observed = elements;
+      }
+    };
+
+    measure();
+    resizeObserver?.observe(container);
+    mutationObserver?.observe(document.body, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: ['class', 'style', 'hidden'],
+    });
+    // Capture phase so scrolling inside any ancestor is seen too
+    window.addEventListener('scroll', schedule, { capture: true, passive: true });
+    window.addEventListener('resize', schedule);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      resizeObserver?.disconnect();
+      mutationObserver?.disconnect();
+      window.removeEventListener('scroll', schedule, { capture: true });
+      window.removeEventListener('resize', schedule);
+    };
+  };
+
+  // Stop the loop while the container is scrolled out of view
+  const trackVisibility = () => {
+    if (!state.pauseWhenOffscreen || typeof IntersectionObserver === 'undefined') {
+      suspended.offscreen = false;
+      syncLoop();
+      return;
+    }
+
+    const observer = new IntersectionObserver(([entry]) => {
+      suspended.offscreen = !entry.isIntersecting;
+      syncLoop();
+    });
+    observer.observe(container);
+
+    return () => {
+      observer.disconnect();
+      suspended.offscreen = false;
+    };
+  };
+
+  const loadSprites = () => {
+    const { sprites } = state;
+    spriteSheet = null;
+    scene?.setSprites(null);
+    if (!sprites || sprites.length === 0) return;
+
+    let cancelled = false;
+    loadSpriteSheet(sprites, diagnostics).then((sheet) => {
+      if (cancelled) return;
+      spriteSheet = sheet;
+      scene?.setSprites(sheet);
+    });
+    return () => {
+      cancelled = true;
+    };
+  };
+
+  const mountScene = () => {
+    const { layerStack: layers, canvasMode, renderer, inWorker } = state;
+
+    // Every scene gets elements that were never transferred or drawn on
+    canvases = layers.map((layer) => {
+      const canvas = document.createElement('canvas');
+      canvas.style.cssText = canvasBaseCss;
+      canvas.style.filter = layerFilter(layer);
+      container.insertBefore(canvas, hud);
+      return canvas;
+    });
+    const sceneCanvases = canvases;
+    // Stand-in 2D canvases for layers whose WebGL context was lost
+    const standIns: (HTMLCanvasElement | null)[] = [];
+
+    // The Canvas fallback of single-context mode draws every flake sharp, so blurred layers need their CSS blur back
+    const setCanvasBlur = (on: boolean) => {
+      sceneCanvases.forEach((canvas, index) => {
+        const { blur } = layers[index];
+        if (blur > 0) canvas.style.filter = on ? `blur(${blur}px)` : '';
+      });
+    };
+
+    const events: SceneEvents = {
+      diagnostics,
+      onRendererChange: (event: RendererChangeEvent) => {
+        if (canvasMode === 'webgl-single') setCanvasBlur(event.renderer === 'canvas');
+        options.onRendererChange?.(event);
+      },
+      onQualityChange: (level) => {
+        autoQuality = level;
+        apply();
+      },
+      onStats: (stats) => {
+        const { onStats } = options;
+        if (!onStats && !hud) return;
+        const snapshot = { paused, suspended: suspended.hidden || suspended.offscreen, ...stats };
+        if (hud) hud.textContent = formatStats(snapshot);
+        onStats?.(snapshot);
+      },
+      replaceCanvas: (index) => {
+        if (canvasMode === 'webgl-single') setCanvasBlur(true);
+        const canvas = sceneCanvases[index];
+        const standIn = document.createElement('canvas');
+        standIn.style.cssText = canvas.style.cssText;
+        canvas.after(standIn);
+        canvas.style.visibility = 'hidden';
+        standIns[index] = standIn;
+        return standIn;
+      },
+      releaseCanvas: (index) => {
+        standIns[index]?.remove();
+        standIns[index] = null;
+        sceneCanvases[index].style.visibility = '';
+      },
+      // Draw on the main thread instead, like 'auto' (the new scene gets fresh canvases)
+      onFailed: () => {
+        workerFailed = true;
+        mountReason = 'worker-error';
+        apply();
+      },
+    };
+
+    const setup: SceneSetup = {
+      layers,
+      renderer: canvasMode === 'worker' ? (webglSupported ? 'webgl' : 'canvas') : canvasMode,
+      webglRequested: renderer !== 'canvas',
+      worker: false,
+      reason: mountReason,
+    };
+    mountReason = 'init';
+    if (renderer === 'worker' && !inWorker && !workerFailed) {
+      diagnostics.info('OffscreenCanvas is unavailable, rendering on the main thread');
+    }
+    // The worker tries WebGL on the transferred canvases itself; if it can't be started the page draws
+    const created = (canvasMode === 'worker' && createWorkerScene(canvases, { ...setup, renderer: 'webgl', worker: true }, state.sceneOptions, viewport(), events))
+      || createScene(canvases, setup, state.sceneOptions, viewport(), events);
+    scene = created;
+
+    // Hand over what was set up before this scene
+    created.setPointer(pointer);
+    if (obstacleRects) created.setObstacles(obstacleRects);
+    if (spriteSheet) created.setSprites(spriteSheet);
+    if (windOverride !== null) created.setWind(windOverride);
+
+    const handleResize = () => created.resize(viewport());
+
+    // Observe the container itself so sidebar/flex layout changes are caught, not only window resizes
+    const resizeObserver = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(handleResize) : null;
+    if (resizeObserver) {
+      resizeObserver.observe(container);
+    } else {
+      window.addEventListener('resize', handleResize);
+    }
+
+    // Moving the window to a screen with a different density doesn't resize the container,
+    // so watch the current device pixel ratio (re-armed after every change)
+    let densityQuery: MediaQueryList | null = null;
+    const handleDensityChange = () => {
+      densityQuery?.removeEventListener('change', handleDensityChange);
+      densityQuery = typeof window.matchMedia === 'function'
+        ? window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`)
+        : null;
+      densityQuery?.addEventListener('change', handleDensityChange);
+      handleResize();
+    };
+    handleDensityChange();
+
+    if (isRunnable()) {
+      created.start();
+    } else {
+      created.draw();
+    }
+    if (hud) hud.textContent = formatStats(getStats());
+
+    return () => {
+      resizeObserver?.disconnect();
+      densityQuery?.removeEventListener('change', handleDensityChange);
+      window.removeEventListener('resize', handleResize);
+      created.destroy();
+      scene = null;
+      canvases = [];
+      sceneCanvases.forEach((canvas) => canvas.remove());
+      standIns.forEach((standIn) => standIn?.remove());
+    };
+  };
+
+  const showHud = () => {
+    if (!state.debug) return;
+    const element = document.createElement('pre');
+    element.className = 'rrs-snowfall-debug';
+    element.style.cssText = hudCss;
+    container.appendChild(element);
+    hud = element;
+    // Filled right away, without waiting for a stats window
+    element.textContent = formatStats(getStats());
+    return () => {
+      element.remove();
+      hud = null;
+    };
+  };
+
+  // Stop the loop while the page is hidden (background tab, minimized window)
+  const handleVisibilityChange = () => {
+    suspended.hidden = document.visibilityState === 'hidden';
+    syncLoop();
+  };
+  handleVisibilityChange();
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+
+  const pointerEffect = createOptionEffect();
+  const obstacleEffect = createOptionEffect();
+  const windEffect = createOptionEffect();
+  const qualityEffect = createOptionEffect();
+  const offscreenEffect = createOptionEffect();
+  const spriteEffect = createOptionEffect();
+  const sceneEffect = createOptionEffect();
+  const blurEffect = createOptionEffect();
+  const hudEffect = createOptionEffect();
+  const ratioEffect = createOptionEffect();
+  // Torn down in reverse
+  const effects = [pointerEffect, obstacleEffect, windEffect, qualityEffect, offscreenEffect, spriteEffect, sceneEffect, blurEffect, hudEffect, ratioEffect];
+
+  // Follow the current options. Changing them doesn't restart the loop or regenerate the particle
+  // field, except for the layers and the renderer, which take a new scene.
+  function apply() {
+    if (destroyed) return;
+    state = resolve();
+    const current = state;
+    pointerEffect.sync([current.interactive], trackPointer);
+    // Compared element by element, so an inline array of the same targets keeps the observers
+    obstacleEffect.sync(current.obstacles ?? [], trackObstacles);
+    windEffect.sync([current.wind], () => {
+      windOverride = null;
+    });
+    // Report the quality level in effect
+    qualityEffect.sync([current.qualityLevel], () => {
+      options.onQualityChange?.(current.qualityLevel);
+    });
+    offscreenEffect.sync([current.pauseWhenOffscreen], trackVisibility);
+    // Keyed on the values, so an inline array doesn't reload the images on every render
+    spriteEffect.sync(spriteValues(current.sprites), loadSprites);
+    sceneEffect.sync([current.layerStack, current.canvasMode, current.renderer], mountScene);
+    // A new scene is created with the options; the scene ignores what didn't change
+    scene?.setOptions(current.sceneOptions);
+    // Turn the CSS blur on and off with the quality level
+    blurEffect.sync([current.blur], () => {
+      if (current.canvasMode === 'webgl-single') return;
+      canvases.forEach((canvas, index) => {
+        canvas.style.filter = layerFilter(current.layerStack[index]);
+      });
+    });
+    hudEffect.sync([current.debug], showHud);
+    // Resize the backing stores when the pixel ratio options (or the quality level capping them) change
+    ratioEffect.sync([current.pixelRatio, current.maxPixelRatio], () => {
+      scene?.resize(viewport());
+    });
+  }
+
+  apply();
+
+  return {
+    pause: () => {
+      paused = true;
+      syncLoop();
+    },
+    resume: () => {
+      paused = false;
+      syncLoop();
+    },
+    step: (dtMs) => scene?.step(dtMs),
+    reset: () => scene?.reset(),
+    burst: (count = 100) => scene?.burst(count),
+    clearAccumulation: () => scene?.clearAccumulation(),
+    setWind: (value) => {
+      windOverride = value;
+      scene?.setWind(value);
+    },
+    getStats,
+    setOptions: (next) => {
+      options = next;
+      apply();
+    },
+    update: (changes) => {
+      options = { ...options, ...changes };
+      apply();
+    },
+    destroy: () => {
+      if (destroyed) return;
+      destroyed = true;
+      effects.slice().reverse().forEach((effect) => effect.dispose());
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    },
+  };
+}
@@ -0,0 +1,181 @@
+import { Particle } from '../types';
+import { drawCrystal } from './crystal';
+import { createSeededRandom } from './random';
+
+/** Pre-rendered flake outlines the Canvas 2D renderer stamps with drawImage */
+export type CachedShape = 'circle' | 'irregular' | 'crystal';
+
+/** Radii the flakes are pre-rendered at, in CSS pixels. A flake uses the smallest one that fits it, scaled down. */
+export const FLAKE_CACHE_RADII = [1, 2, 4, 8, 16];
+
+/** Outlines pre-rendered per seed bucket (irregular and crystal flakes) */
+export const FLAKE_CACHE_VARIANTS = 8;
+
+/** Rotations pre-rendered across the range flakes rock through (-1 to 1 radian), ends included */
+export const FLAKE_CACHE_ROTATIONS = 17;
+
+// Entries kept at least (each palette color, roughness step and pixel ratio is one)
+const MIN_ENTRIES = 32;
+
+// Entries per palette color: a frame draws discs and one other shape, and a roughness transition
+// or pixel ratio change briefly needs both the old and new ones
+const ENTRIES_PER_COLOR = 4;
+
+// Transparent border around each cell, in device pixels, so scaled drawing doesn't pick up a neighbour
+const CELL_MARGIN = 1;
+
+/** One radius of an entry: every variant and rotation in a grid, a row per variant */
+export interface FlakeSheet {
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  cell: number; // Side of a cell in device pixels
+  half: number; // Half the side of a cell in CSS pixels at the sheet's radius
+}
+
+/** The pre-rendered flakes of one shape, color, roughness and pixel ratio */
+export interface FlakeCacheEntry {
+  shape: CachedShape;
+  color: string;
+  roughness: number;
+  ratio: number;
+  sheets: (FlakeSheet | null)[]; // Per FLAKE_CACHE_RADII entry, rendered on first use
+}
+
+/** Pre-rendered flakes of a renderer, keyed by shape, color, roughness and pixel ratio */
+export type FlakeCache = Map<string, FlakeCacheEntry>;
+
+export const createFlakeCache = (): FlakeCache => new Map();
+
+/** Entries a cache keeps for a palette of `colors` swatches, so a frame never evicts what it draws */
+export const flakeCacheLimit = (colors: number): number => Math.max(MIN_ENTRIES, colors * ENTRIES_PER_COLOR);
+
+// How far an outline reaches beyond its radius: irregular vertices up to half the roughness,
+// crystal arms (with their stroke) about a third
+const outlineExtent = (shape: CachedShape, roughness: number) => {
+  if (shape === 'irregular') return 1 + Math.max(0, roughness) / 2;
+  return shape === 'crystal' ? 1.4 : 1;
+};
+
+/**
+ * The cache entry for a shape and color. Roughness is rounded to a tenth so a roughness
+ * transition only renders a few entries. Once the cache holds `limit` entries, the least
+ * recently used one is dropped.
+ */
+export function flakeCacheEntry(
+  cache: FlakeCache,
+  shape: CachedShape,
+  color: string,
+  roughness: number,
+  ratio: number,
+  limit = MIN_ENTRIES
+): FlakeCacheEntry {
+  const rounded = shape === 'irregular' ? Math.round(roughness * 10) / 10 : 0;
+  const key = `${shape}|${color}|${rounded}|${ratio}`;
+  let entry = cache.get(key);
+  if (entry) {
+    // Maps keep insertion order: move the entry to the end, so the first one is the least recently used
+    cache.delete(key);
+  } else {
+    while (cache.size >= limit) cache.delete(cache.keys().next().value!);
+    entry = { shape, color, roughness: rounded, ratio, sheets: FLAKE_CACHE_RADII.map(() => null) };
+  }
+  cache.set(key, entry);
+  return entry;
+}
+
+/**
+ * Seed of a variant's outline (spread out so crystals get different branch counts and widths).
+ * The WebGL renderer shapes crystals from the same seeds, so both renderers draw the same ones.
+ */
+export const variantSeed = (variant: number): number => variant * 97.13 + 11.7;
+
+/**
+ * The outline variant a flake is stamped from. Hashed from its shape seed with a different
+ * multiplier than its palette color (swatchFor), so outline and color vary independently.
+ */
+export const flakeVariant = (p: Particle): number => Math.floor(((p.shapeSeed * 3.97) % 1) * FLAKE_CACHE_VARIANTS);
+
+// Outline of an irregular flake, 5 to 8 vertices like the WebGL polygons
+function traceIrregular(ctx: CanvasRenderingContext2D, variant: number, radius: number, roughness: number): void {
+  const rand = createSeededRandom(`flake-${variant}`);
+  const points = 5 + Math.floor(rand() * 4);
+  ctx.beginPath();
+  for (let i = 0; i < points; i++) {
+    const angle = (i / points) * Math.PI * 2;
+    const variance = 1 + (rand() - 0.5) * roughness;
+    ctx.lineTo(Math.cos(angle) * radius * variance, Math.sin(angle) * radius * variance);
+  }
+  ctx.closePath();
+}
+
+// A canvas in the page, or an offscreen one in a worker
+function createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas | null {
+  if (typeof document === 'undefined') {
+    return typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(width, height) : null;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function renderSheet(entry: FlakeCacheEntry, index: number): FlakeSheet | null {
+  const { shape, color, roughness, ratio } = entry;
+  const radius = FLAKE_CACHE_RADII[index];
+  const half = radius * outlineExtent(shape, roughness) + CELL_MARGIN / ratio;
+  const cell = Math.ceil(half * 2 * ratio);
+  const variants = shape === 'circle' ? 1 : FLAKE_CACHE_VARIANTS;
+  const rotations = shape === 'circle' ? 1 : FLAKE_CACHE_ROTATIONS;
+
+  const canvas = createCanvas(cell * rotations, cell * variants);
+  // The offscreen context has every method used here
+  const ctx = canvas?.getContext('2d') as CanvasRenderingContext2D | null | undefined;
+  if (!canvas || !ctx) return null;
+  ctx.fillStyle = color;
+
+  for (let variant = 0; variant < variants; variant++) {
+    for (let step = 0; step < rotations; step++) {
+      // Cell center, drawing in CSS pixels
+      ctx.setTransform(ratio, 0, 0, ratio, (step + 0.5) * cell, (variant + 0.5) * cell);
+      ctx.rotate(rotations > 1 ? (step / (rotations - 1)) * 2 - 1 : 0);
+      if (shape === 'crystal') {
+        drawCrystal(ctx, variantSeed(variant), radius);
+        continue;
+      }
+      if (shape === 'irregular') {
+        traceIrregular(ctx, variant, radius, roughness);
+      } else {
+        ctx.beginPath();
+        ctx.arc(0, 0, radius, 0, Math.PI * 2);
+      }
+      ctx.fill();
+    }
+  }
+  // Keep `half` consistent with the rounded-up cell
+  return { canvas, cell, half: cell / ratio / 2 };
+}
+
+/**
+ * Stamp a flake from the cache at (x, y) in the context's CSS pixel space, rotated by `rotation`
+ * (-1 to 1 radian) and scaled to its radius. Returns false if the sheet couldn't be rendered.
+ */
+export function drawCachedFlake(
+  ctx: CanvasRenderingContext2D,
+  entry: FlakeCacheEntry,
+  p: Particle,
+  x: number,
+  y: number,
+  rotation: number
+): boolean {
+  let index = 0;
+  while (index < FLAKE_CACHE_RADII.length - 1 && FLAKE_CACHE_RADII[index] < p.radius) index++;
+  const sheet = entry.sheets[index] ?? (entry.sheets[index] = renderSheet(entry, index));
+  if (!sheet) return false;
+
+  const round = entry.shape === 'circle';
+  const variant = round ? 0 : flakeVariant(p);
+  const step = round ? 0 : Math.round(((Math.max(-1, Math.min(1, rotation)) + 1) / 2) * (FLAKE_CACHE_ROTATIONS - 1));
+  const half = sheet.half * (p.radius / FLAKE_CACHE_RADII[index]);
+  const { cell } = sheet;
+  ctx.drawImage(sheet.canvas, step * cell, variant * cell, cell, cell, x - half, y - half, half * 2, half * 2);
+  return true;
+}
@@ -0,0 +1,67 @@
+import { InteractionOptions, Particle } from '../types';
+
+export interface ResolvedInteraction {
+  mode: 'repel' | 'attract' | 'vortex';
+  radius: number;
+  strength: number;
+}
+
+/** Pointer position relative to the Snowfall container */
+export interface PointerState {
+  x: number;
+  y: number;
+  active: boolean;
+}
+
+// Displacement in px per step at the pointer itself, for strength 1 and a depth factor of 1
+const MAX_PUSH = 3;
+
+/** Normalize the `interaction` prop. Returns null when interaction is off. */
+export function resolveInteraction(interaction: InteractionOptions | undefined): ResolvedInteraction | null {
+  if (!interaction) return null;
+  return {
+    mode: interaction.mode ?? 'repel',
+    radius: Math.max(1, interaction.radius ?? 120),
+    strength: interaction.strength ?? 1,
+  };
+}
+
+/**
+ * Push a particle away from, towards or around the pointer. The force falls off quadratically
+ * to zero at the interaction radius and is scaled by `depth` so nearer layers react more.
+ */
+export function applyPointerForce(
+  p: Particle,
+  pointer: PointerState,
+  interaction: ResolvedInteraction,
+  depth: number
+): void {
+  const dx = p.x - pointer.x;
+  const dy = p.y - pointer.y;
+  const distSq = dx * dx + dy * dy;
+  const { radius } = interaction;
+  if (distSq >= radius * radius || distSq < 0.0001) return;
+
+  const dist = Math.sqrt(distSq);
+  const falloff = (1 - dist / radius) ** 2;
+  const push = MAX_PUSH * interaction.strength * falloff * depth;
+  const nx = dx / dist;
+  const ny = dy / dist;
+
+  switch (interaction.mode) {
+    case 'repel':
+      p.x += nx * push;
+      p.y += ny * push;
+      break;
+    case 'attract':
+      // Never pull past the pointer
+      p.x -= nx * Math.min(push, dist);
+      p.y -= ny * Math.min(push, dist);
+      break;
+    case 'vortex':
+      // Tangential swirl (clockwise on screen)
+      p.x -= ny * push;
+      p.y += nx * push;
+      break;
+  }
+}
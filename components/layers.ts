@@ -0,0 +1,95 @@
+import { LayerConfig } from '../types';
+
+export interface ResolvedLayer {
+  name: string;
+  share: number;
+  minCount: number;
+  radius: [number, number];
+  radiusFrom: 'range' | 'max';
+  minRadiusPx: number;
+  speed: number;
+  wind: number;
+  opacity: number;
+  blur: number;
+  shape: 'dot' | 'polygon';
+  settle: boolean;
+}
+
+/**
+ * The stack used when the `layers` prop is not set, back to front: a hazy background of dots,
+ * the main field, large blurred foreground flakes and a few huge "camera" flakes passing the lens.
+ */
+export const DEFAULT_LAYERS: LayerConfig[] = [
+  { name: 'back', share: 0.8, radius: [0.5, 0.6], speed: 0.6, wind: 0.5, opacity: 0.3, shape: 'dot', settle: false },
+  { name: 'mid', share: 0.5, radius: [1, 1], speed: 1.0, wind: 1.0, opacity: 0.6 },
+  {
+    name: 'front',
+    share: 0.1,
+    minCount: 5,
+    radius: [1, 1.8],
+    radiusFrom: 'max',
+    minRadiusPx: 2,
+    speed: 1.4,
+    wind: 1.5,
+    opacity: 0.8,
+    blur: 3,
+  },
+  {
+    name: 'camera',
+    share: 0.004,
+    minCount: 2,
+    radius: [3.5, 5.5],
+    radiusFrom: 'max',
+    speed: 2.0,
+    wind: 1.5,
+    opacity: 0.8,
+    blur: 3,
+  },
+];
+
+/** Normalize the `layers` prop, filling in defaults. Unnamed layers are called `layer0`, `layer1`, ... */
+export function resolveLayers(layers: LayerConfig[] | undefined): ResolvedLayer[] {
+  return (layers ?? DEFAULT_LAYERS).map((layer, index) => ({
+    name: layer.name ?? `layer${index}`,
+    share: Math.max(0, layer.share),
+    minCount: Math.max(0, Math.floor(layer.minCount ?? 0)),
+    radius: layer.radius ?? [1, 1],
+    radiusFrom: layer.radiusFrom ?? 'range',
+    minRadiusPx: layer.minRadiusPx ?? 0,
+    speed: layer.speed ?? 1,
+    wind: layer.wind ?? 1,
+    opacity: layer.opacity ?? 1,
+    blur: Math.max(0, layer.blur ?? 0),
+    shape: layer.shape ?? 'polygon',
+    settle: layer.settle ?? true,
+  }));
+}
+
+/** Whether two stacks have the same layers, field by field (a new `layers` array of the same values keeps the field) */
+export function sameLayers(a: ResolvedLayer[], b: ResolvedLayer[]): boolean {
+  return a.length === b.length && a.every((layer, index) => {
+    const other = b[index];
+    return (Object.keys(layer) as (keyof ResolvedLayer)[]).every((key) => (
+      key === 'radius'
+        ? layer.radius[0] === other.radius[0] && layer.radius[1] === other.radius[1]
+        : layer[key] === other[key]
+    ));
+  });
+}
+
+/** Number of flakes the layer holds at the given density */
+export function layerCount(layer: ResolvedLayer, density: number): number {
+  return Math.max(layer.minCount, Math.floor(density * layer.share));
+}
+
+/** Radius range of the layer's flakes in px for the `minRadius`/`maxRadius` props */
+export function layerRadiusRange(layer: ResolvedLayer, minRadius: number, maxRadius: number): [number, number] {
+  const [min, max] = layer.radius;
+  const rMin = (layer.radiusFrom === 'max' ? maxRadius : minRadius) * min;
+  return [Math.max(layer.minRadiusPx, rMin), maxRadius * max];
+}
+
+/** Index of the layer one-shot burst flakes are spawned into: the middle of the stack */
+export function burstLayerIndex(layers: ResolvedLayer[]): number {
+  return Math.floor((layers.length - 1) / 2);
+}
@@ -0,0 +1,125 @@
+import type { RefObject } from 'react';
+import { ObstacleTarget } from '../types';
+import { SnowGround, createGround, groundHeightAt } from './accumulation';
+
+// Width of the horizontal buckets used to look up obstacles under a flake
+const BUCKET_WIDTH = 64;
+
+/** An obstacle's rect relative to the Snowfall container. Elements can't be posted to a worker, so they are identified by `id`. */
+export interface ObstacleRect {
+  id: number;
+  x: number;
+  y: number; // Top edge flakes settle on
+  width: number;
+}
+
+/** A measured obstacle with the snow on it */
+export interface Obstacle extends ObstacleRect {
+  pile: SnowGround; // Snow settled on the top edge, relative to x
+}
+
+/** Stable ids for obstacle elements, so their piles are found again when they are re-measured */
+export type ObstacleIds = (element: Element) => number;
+
+export function createObstacleIds(): ObstacleIds {
+  const ids = new WeakMap<Element, number>();
+  let next = 0;
+  return (element) => {
+    let id = ids.get(element);
+    if (id === undefined) {
+      id = ++next;
+      ids.set(element, id);
+    }
+    return id;
+  };
+}
+
+/** Obstacles indexed by horizontal bucket so collision tests only look at nearby elements */
+export interface ObstacleField {
+  obstacles: Obstacle[];
+  buckets: Obstacle[][];
+}
+
+function isRefObject(target: ObstacleTarget): target is RefObject<Element | null> {
+  return typeof target === 'object' && target !== null && 'current' in target;
+}
+
+/** Resolve selectors and refs to the elements currently in the document */
+export function resolveObstacleElements(targets: ObstacleTarget[]): Element[] {
+  const elements = new Set<Element>();
+
+  targets.forEach((target) => {
+    if (typeof target === 'string') {
+      document.querySelectorAll(target).forEach((element) => elements.add(element));
+    } else if (isRefObject(target)) {
+      if (target.current) elements.add(target.current);
+    } else {
+      elements.add(target);
+    }
+  });
+
+  return Array.from(elements);
+}
+
+/** Measure element rects relative to the container */
+export function measureObstacles(elements: Element[], container: Element, ids: ObstacleIds): ObstacleRect[] {
+  const origin = container.getBoundingClientRect();
+
+  return elements.flatMap((element) => {
+    const rect = element.getBoundingClientRect();
+    if (rect.width <= 0) return [];
+    return [{ id: ids(element), x: rect.left - origin.left, y: rect.top - origin.top, width: rect.width }];
+  });
+}
+
+/** Give measured rects their piles: piles of obstacles that were already placed are carried over (resampled if the width changed) */
+export function placeObstacles(rects: ObstacleRect[], previous: Obstacle[]): Obstacle[] {
+  const known = new Map(previous.map((obstacle) => [obstacle.id, obstacle]));
+
+  return rects.map((rect) => {
+    const existing = known.get(rect.id);
+    const pile = existing && existing.width === rect.width
+      ? existing.pile
+      : createGround(rect.width, existing?.pile);
+    return { ...rect, pile };
+  });
+}
+
+/** Bucket obstacles by the horizontal range they cover inside a container of the given width */
+export function buildObstacleField(obstacles: Obstacle[], width: number): ObstacleField {
+  const buckets: Obstacle[][] = Array.from({ length: Math.ceil(width / BUCKET_WIDTH) + 1 }, () => []);
+
+  obstacles.forEach((obstacle) => {
+    const first = Math.max(0, Math.floor(obstacle.x / BUCKET_WIDTH));
+    const last = Math.min(buckets.length - 1, Math.floor((obstacle.x + obstacle.width) / BUCKET_WIDTH));
+    for (let i = first; i <= last; i++) {
+      buckets[i].push(obstacle);
+    }
+  });
+
+  return { obstacles, buckets };
+}
+
+/**
+ * Find the obstacle whose snow surface a flake crossed during the last step, given the
+ * flake's bottom edge before (`prevBottom`) and after (`bottom`) the step.
+ */
+export function findObstacleLanding(
+  field: ObstacleField,
+  x: number,
+  prevBottom: number,
+  bottom: number
+): Obstacle | null {
+  const bucket = field.buckets[Math.floor(x / BUCKET_WIDTH)];
+  if (!bucket) return null;
+
+  for (let i = 0; i < bucket.length; i++) {
+    const obstacle = bucket[i];
+    if (x < obstacle.x || x > obstacle.x + obstacle.width) continue;
+
+    const surface = obstacle.y - groundHeightAt(obstacle.pile, x - obstacle.x);
+    if (prevBottom <= surface && bottom >= surface) return obstacle;
+  }
+
+  return null;
+}
@@ -0,0 +1,86 @@
+import { GustOptions, SnowfallProps, WeatherPreset } from '../types';
+import { Diagnostics, consoleDiagnostics } from './diagnostics';
+
+export interface ResolvedGusts {
+  chance: number; // Probability of a gust starting on any simulation step without one
+  strength: [number, number];
+  duration: [number, number]; // Seconds
+}
+
+/** Gusts of the default weather: about two a minute, 2 to 5 seconds long */
+export const DEFAULT_GUSTS: Required<GustOptions> = {
+  frequency: 1.8,
+  strength: [0.5, 2],
+  duration: [2, 5],
+};
+
+/**
+ * Built-in weather presets. The registry is shared: add to it with registerPreset and pass the
+ * name as the `preset` prop.
+ */
+export const PRESETS: Record<string, WeatherPreset> = {
+  flurry: {
+    props: { density: 300, speed: 0.7, wind: 0.1, minRadius: 0.3, maxRadius: 2, roughness: 0.6 },
+    gusts: { frequency: 0.5, strength: [0.3, 0.8], duration: [2, 4] },
+  },
+  blizzard: {
+    props: {
+      density: 2600,
+      speed: 2.4,
+      wind: 1.6,
+      minRadius: 0.2,
+      maxRadius: 2.6,
+      roughness: 1.2,
+      turbulence: { scale: 180, strength: 1.2, updraft: 0.7 },
+    },
+    gusts: { frequency: 8, strength: [1, 3], duration: [2, 6] },
+  },
+  // Small, fast, translucent ice pellets
+  sleet: {
+    props: { density: 1800, speed: 3.2, wind: 0.4, minRadius: 0.2, maxRadius: 1.2, roughness: 0.2, shape: 'circle', color: 'rgba(220, 230, 240, 0.85)' },
+    gusts: { frequency: 2, strength: [0.5, 1.5], duration: [1, 3] },
+  },
+  // Soft rimed pellets: round, opaque and heavy, barely pushed by the wind
+  graupel: {
+    props: { density: 900, speed: 2.2, wind: 0.15, minRadius: 0.6, maxRadius: 1.8, roughness: 0.3, shape: 'circle' },
+    gusts: { frequency: 1, strength: [0.3, 1], duration: [1, 3] },
+  },
+};
+
+/** Add a preset to the registry, or replace one (built-ins included) */
+export function registerPreset(name: string, preset: WeatherPreset): void {
+  PRESETS[name] = preset;
+}
+
+/** Look up the `preset` prop. Unknown names are ignored with a warning. */
+export function resolvePreset(
+  preset: string | WeatherPreset | undefined,
+  diagnostics: Diagnostics = consoleDiagnostics
+): WeatherPreset | null {
+  if (preset === undefined) return null;
+  if (typeof preset !== 'string') return preset;
+  const registered = PRESETS[preset];
+  if (!registered) diagnostics.warn(`Unknown preset "${preset}"`);
+  return registered ?? null;
+}
+
+/** Props with the preset's values filled in wherever the prop itself is not set */
+export function applyPreset(props: SnowfallProps, preset: WeatherPreset | null): SnowfallProps {
+  if (!preset?.props) return props;
+  const merged: Record<string, unknown> = { ...preset.props };
+  for (const [key, value] of Object.entries(props)) {
+    if (value !== undefined) merged[key] = value;
+  }
+  return merged as SnowfallProps;
+}
+
+/** Normalize a preset's gusts, with the defaults for anything it leaves out */
+export function resolveGusts(gusts: GustOptions | undefined): ResolvedGusts {
+  const frequency = Math.max(0, gusts?.frequency ?? DEFAULT_GUSTS.frequency);
+  return {
+    // Gusts per minute to a per-step chance at 60 steps per second
+    chance: frequency / 3600,
+    strength: gusts?.strength ?? DEFAULT_GUSTS.strength,
+    duration: gusts?.duration ?? DEFAULT_GUSTS.duration,
+  };
+}
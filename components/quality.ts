@@ -0,0 +1,106 @@
+import { QualityLevel } from '../types';
+
+/** What a quality level trades away for speed */
+export interface QualitySettings {
+  density: number; // Fraction of each layer's flakes that are simulated and drawn
+  simpleShapes: boolean; // Irregular flakes as bumpy discs (WebGL) or plain discs (Canvas) instead of polygons
+  blur: boolean; // Depth-of-field blur of the blurred layers
+  maxPixelRatio: number; // Cap on the canvas pixel ratio, on top of the `maxPixelRatio` prop
+}
+
+/** Quality levels from cheapest to finest (the governor steps through them in this order) */
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high'];
+
+export const QUALITY_SETTINGS: Record<QualityLevel, QualitySettings> = {
+  high: { density: 1, simpleShapes: false, blur: true, maxPixelRatio: Infinity },
+  medium: { density: 0.7, simpleShapes: true, blur: true, maxPixelRatio: 1.5 },
+  low: { density: 0.4, simpleShapes: true, blur: false, maxPixelRatio: 1 },
+};
+
+// Smoothing of the frame and work times (weight of the newest frame)
+const SMOOTHING = 0.1;
+
+// Frames longer than this are stalls (a background tab, a breakpoint) rather than slow frames
+const STALL_MS = 250;
+
+// The budget counts as missed once the smoothed frame time exceeds it by this factor (while the
+// work doesn't fit in it either)...
+const MISS_FACTOR = 1.2;
+// ...and as having headroom while the work takes at most this fraction of it
+const HEADROOM_FACTOR = 0.5;
+
+// How long the budget has to be missed before stepping down, and how long there has to be
+// headroom before stepping up (doubled, up to the limit, each time a step up didn't hold)
+const STEP_DOWN_AFTER_MS = 1000;
+const STEP_UP_AFTER_MS = 5000;
+const MAX_STEP_UP_AFTER_MS = 60000;
+
+// Time after a change during which frames aren't judged (the scene settles into the new level)
+const COOLDOWN_MS = 2000;
+
+/** State of the `quality: 'auto'` governor */
+export interface QualityGovernor {
+  level: QualityLevel;
+  frame: number; // Smoothed time between drawn frames, in ms
+  work: number; // Smoothed time spent simulating and drawing a frame, in ms
+  missed: number; // Time the budget has been missed for, in ms
+  headroom: number; // Time there has been headroom for, in ms
+  cooldown: number; // Time left before frames are judged again, in ms
+  stepUpAfter: number; // Headroom needed before the next step up, in ms
+  steppedUp: boolean; // Whether the last change was a step up
+}
+
+export const createQualityGovernor = (level: QualityLevel = 'high'): QualityGovernor => ({
+  level,
+  frame: 0,
+  work: 0,
+  missed: 0,
+  headroom: 0,
+  cooldown: 0,
+  stepUpAfter: STEP_UP_AFTER_MS,
+  steppedUp: false,
+});
+
+function changeLevel(governor: QualityGovernor, step: number): void {
+  governor.level = QUALITY_LEVELS[QUALITY_LEVELS.indexOf(governor.level) + step];
+  governor.missed = 0;
+  governor.headroom = 0;
+  governor.frame = 0;
+  governor.work = 0;
+  governor.cooldown = COOLDOWN_MS;
+  governor.steppedUp = step > 0;
+}
+
+/**
+ * Judge one drawn frame and return the quality level to use from now on. `frameMs` is the time
+ * since the previous frame; `workMs` is the time this frame spent on the main thread, which shows
+ * the headroom a refresh-locked frame time can't. `budgetMs` is the frame time being aimed for.
+ * Long frames only count as missed while the work takes longer than the budget too: a display or
+ * browser capped below the budget (battery saver, background throttling) has long frames however
+ * little there is to do.
+ */
+export function sampleFrame(governor: QualityGovernor, frameMs: number, workMs: number, budgetMs: number): QualityLevel {
+  if (frameMs <= 0 || frameMs > STALL_MS) return governor.level;
+
+  governor.frame = governor.frame ? governor.frame + (frameMs - governor.frame) * SMOOTHING : frameMs;
+  governor.work = governor.work ? governor.work + (workMs - governor.work) * SMOOTHING : workMs;
+  if (governor.cooldown > 0) {
+    governor.cooldown -= frameMs;
+    return governor.level;
+  }
+
+  const missing = governor.frame > budgetMs * MISS_FACTOR && governor.work > budgetMs;
+  const spare = !missing && governor.work <= budgetMs * HEADROOM_FACTOR;
+  governor.missed = missing ? governor.missed + frameMs : 0;
+  governor.headroom = spare ? governor.headroom + frameMs : 0;
+
+  const index = QUALITY_LEVELS.indexOf(governor.level);
+  if (governor.missed >= STEP_DOWN_AFTER_MS && index > 0) {
+    // A step up that couldn't be sustained: wait longer before trying again
+    if (governor.steppedUp) governor.stepUpAfter = Math.min(governor.stepUpAfter * 2, MAX_STEP_UP_AFTER_MS);
+    changeLevel(governor, -1);
+  } else if (governor.headroom >= governor.stepUpAfter && index < QUALITY_LEVELS.length - 1) {
+    changeLevel(governor, 1);
+  }
+  return governor.level;
+}
@@ -0,0 +1,100 @@
+import { Particle, Precipitation } from '../types';
+import { RandomSource } from './random';
+
+/** Fall speed of a rain drop relative to a snowflake of the same size */
+export const RAIN_SPEED = 6;
+
+/** Sway of a rain drop relative to a snowflake (drops barely flutter) */
+export const RAIN_SWAY = 0.1;
+
+/** Opacity of a rain drop relative to a snowflake (streaks are thin and see-through) */
+export const RAIN_OPACITY = 0.7;
+
+// Streak length in steps of motion: how far back along its path the drop is smeared
+const STREAK_STEPS = 1.5;
+
+// Splash droplets: how many a drop throws up, how long they live (in steps) and how fast they fall back
+const SPLASH_DROPLETS = [2, 4];
+const SPLASH_STEPS = 18;
+const SPLASH_GRAVITY = 0.2;
+
+/** A drop's streak: its center, the vector from its tail to its head and its width, in CSS pixels */
+export interface RainStreak {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+  width: number;
+}
+
+/**
+ * Whether a particle falls as rain. In 'mixed' mode about half the particles do, picked by shape
+ * seed so switching modes doesn't regenerate the field. Splash droplets are never drops.
+ */
+export function isRainDrop(p: Particle, precipitation: Precipitation): boolean {
+  if (precipitation === 'snow' || p.splash !== undefined) return false;
+  return precipitation === 'rain' || (p.shapeSeed * 3.71) % 1 < 0.5;
+}
+
+/** Fill `out` with the drop's streak, aligned with its motion over the last step */
+export function rainStreak(p: Particle, alpha: number, out: RainStreak): RainStreak {
+  const dx = (p.x - p.prevX) * STREAK_STEPS;
+  const dy = (p.y - p.prevY) * STREAK_STEPS;
+  // The head is at the interpolated position, the center half a streak behind it
+  out.x = p.prevX + (p.x - p.prevX) * alpha - dx / 2;
+  out.y = p.prevY + (p.y - p.prevY) * alpha - dy / 2;
+  out.dx = dx;
+  out.dy = dy;
+  out.width = Math.max(0.5, p.radius * 0.5);
+  return out;
+}
+
+/** Draw a drop's streak in the context's current fill style */
+export function drawRainCanvas(ctx: CanvasRenderingContext2D, streak: RainStreak): void {
+  ctx.strokeStyle = ctx.fillStyle;
+  ctx.lineWidth = streak.width;
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.moveTo(streak.x - streak.dx / 2, streak.y - streak.dy / 2);
+  ctx.lineTo(streak.x + streak.dx / 2, streak.y + streak.dy / 2);
+  ctx.stroke();
+}
+
+/** Add the droplets a drop throws up where it hits a surface at `y` */
+export function spawnSplash(p: Particle, y: number, rand: RandomSource, out: Particle[]): void {
+  const [fewest, most] = SPLASH_DROPLETS;
+  const count = fewest + Math.floor(rand() * (most - fewest + 1));
+  const size = Math.max(0.5, p.radius / 2.5);
+
+  for (let i = 0; i < count; i++) {
+    out.push({
+      x: p.x,
+      y,
+      prevX: p.x,
+      prevY: y,
+      radius: Math.max(0.3, p.radius * 0.35),
+      opacity: p.opacity * RAIN_OPACITY,
+      vx: (rand() - 0.5) * 2 * size,
+      vy: -(0.8 + rand() * 1.2) * size,
+      wobble: 0,
+      wobbleSpeed: 0,
+      swayAmplitude: 0,
+      shapeSeed: p.shapeSeed, // Same color as the drop
+      band: p.band,
+      transient: true,
+      splash: SPLASH_STEPS,
+    });
+  }
+}
+
+/** Advance a splash droplet by one step. Returns false once it has faded out. */
+export function updateSplash(p: Particle): boolean {
+  p.prevX = p.x;
+  p.prevY = p.y;
+  p.vy += SPLASH_GRAVITY;
+  p.x += p.vx;
+  p.y += p.vy;
+  p.splash = (p.splash ?? 0) - 1;
+  p.opacity *= 0.9;
+  return p.splash > 0;
+}
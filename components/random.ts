@@ -0,0 +1,39 @@
+/** A source of uniformly distributed numbers in [0, 1), compatible with `Math.random`. */
+export type RandomSource = () => number;
+
+// FNV-1a hash so string seeds map to a well-mixed 32-bit integer
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Reduce a numeric or string seed to an unsigned 32-bit integer. */
+export function hashSeed(seed: number | string): number {
+  if (typeof seed === 'number' && Number.isInteger(seed)) return seed >>> 0;
+  return hashString(String(seed));
+}
+
+/** Mulberry32: small, fast PRNG with a full 2^32 period. Same seed, same sequence. */
+export function createSeededRandom(seed: number | string): RandomSource {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Create the random source for a simulation stream. Without a seed this is plain `Math.random`.
+ * `stream` keeps independent consumers (e.g. particles vs. wind) from sharing one sequence.
+ */
+export function createRandom(seed?: number | string, stream?: string): RandomSource {
+  if (seed === undefined) return Math.random;
+  return createSeededRandom(stream ? `${seed}/${stream}` : seed);
+}
@@ -0,0 +1,1051 @@
+import { FlakeShape, Particle, Precipitation, QualityLevel, RendererChangeEvent, SnowfallStats } from '../types';
+import {
+  initWebGL,
+  renderWebGL,
+  renderWebGLLayers,
+  renderGroundWebGL,
+  bindSpriteSheet,
+  SHAPE_CODES,
+  WebGLLayer,
+  WebGLState,
+} from './WebGLRenderer';
+import { createRandom, RandomSource } from './random';
+import {
+  SnowGround,
+  ResolvedAccumulation,
+  DEFAULT_ACCUMULATION,
+  createGround,
+  groundHeightAt,
+  depositSnow,
+  settleGround,
+  clearGround,
+  drawGroundCanvas,
+} from './accumulation';
+import { ObstacleField, ObstacleRect, placeObstacles, buildObstacleField, findObstacleLanding } from './obstacles';
+import { PointerState, ResolvedInteraction, applyPointerForce } from './interaction';
+import {
+  ResolvedTurbulence,
+  TurbulenceField,
+  WindVector,
+  createTurbulenceField,
+  sampleTurbulence,
+} from './turbulence';
+import { ColorSwatch, swatchFor } from './color';
+import { ResolvedLayer, layerCount, layerRadiusRange, burstLayerIndex } from './layers';
+import { CRYSTAL_MIN_RADIUS } from './crystal';
+import { CachedShape, createFlakeCache, flakeCacheEntry, flakeCacheLimit, drawCachedFlake } from './flakeCache';
+import { SpriteSheet, spriteFor, drawSprite } from './sprites';
+import { ResolvedGusts } from './presets';
+import { FieldTransition, createFieldTransition, planMorph, retireParticle, stepTransition } from './transitions';
+import { QUALITY_SETTINGS, createQualityGovernor, sampleFrame } from './quality';
+import { createFrameStats, recordFrame } from './stats';
+import { Diagnostics } from './diagnostics';
+import {
+  RAIN_SPEED,
+  RAIN_SWAY,
+  RAIN_OPACITY,
+  RainStreak,
+  isRainDrop,
+  rainStreak,
+  drawRainCanvas,
+  spawnSplash,
+  updateSplash,
+} from './rain';
+
+// The simulation advances in fixed steps of real time. All per-step motion values
+// (speed, wind, wobble) were tuned for 60 steps per second.
+const SIMULATION_STEP_MS = 1000 / 60;
+
+// Longest frame gap the simulation will catch up on. Anything longer (background tab,
+// debugger pause) is treated as a stall and dropped instead of fast-forwarding the scene.
+const MAX_FRAME_DELTA_MS = 100;
+
+// Most a single step() call simulates (100 capped frames), so a huge dtMs can't hang the page
+const MAX_STEP_MS = MAX_FRAME_DELTA_MS * 100;
+
+// Quiet period after the last resize before particles are fitted to the new bounds
+const RESIZE_DEBOUNCE_MS = 100;
+
+// Slack when throttling to `maxFps`, so rAF timestamp jitter doesn't skip frames that are due
+const FRAME_TOLERANCE_MS = 1;
+
+// Opacity of the accumulated snowbank relative to the global opacity
+const GROUND_OPACITY = 0.9;
+
+// Scratch streak reused for every rain drop drawn with Canvas 2D
+const streak: RainStreak = { x: 0, y: 0, dx: 0, dy: 0, width: 0 };
+
+// Scratch vector reused for every turbulence sample
+const eddy: WindVector = { x: 0, y: 0 };
+
+/** A layer's canvas: in the page, or transferred to a worker */
+export type SceneCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/** What a scene is created with. Changing any of it takes a new scene. */
+export interface SceneSetup {
+  layers: ResolvedLayer[]; // Depth layers, back to front, one canvas each
+  renderer: 'webgl' | 'webgl-single' | 'canvas'; // WebGL with a context per layer or one for all, or Canvas 2D
+  webglRequested: boolean; // Whether WebGL was asked for, so Canvas 2D drawing counts as a fallback
+  worker: boolean; // Whether the scene runs in a worker
+  reason?: RendererChangeEvent['reason']; // Why the scene is created, for its first renderer report. Default: 'init'
+}
+
+/** The props a running scene follows, resolved. Plain data, so they can be posted to a worker. */
+export interface SceneOptions {
+  seed?: number | string;
+  density: number;
+  minRadius: number;
+  maxRadius: number;
+  roughness: number;
+  transitionDuration: number;
+  speed: number;
+  wind: number;
+  color: string;
+  palette: ColorSwatch[];
+  precipitation: Precipitation;
+  shape: FlakeShape;
+  opacity: number;
+  gusts: ResolvedGusts;
+  turbulence: ResolvedTurbulence | null;
+  accumulation: ResolvedAccumulation | null;
+  interaction: ResolvedInteraction | null;
+  maxFps?: number;
+  quality: 'auto' | QualityLevel;
+  qualityLevel: QualityLevel; // Level in effect: the `quality` prop, or the governor's pick while it is 'auto'
+}
+
+/** Size of the container in CSS pixels, and the pixel ratio of the canvas backing stores */
+export interface SceneViewport {
+  width: number;
+  height: number;
+  ratio: number;
+}
+
+/** Stats of a scene; whether it is paused or suspended is up to whoever runs it */
+export type SceneStats = Omit<SnowfallStats, 'paused' | 'suspended'>;
+
+/** How a scene reports back to whoever runs it */
+export interface SceneEvents {
+  diagnostics: Diagnostics;
+  onRendererChange(event: RendererChangeEvent): void;
+  /** The governor of `quality: 'auto'` picked another level (it takes effect through setOptions) */
+  onQualityChange(level: QualityLevel): void;
+  /** A stats window completed (about once a second while the loop runs) */
+  onStats(stats: SceneStats): void;
+  /** A 2D canvas to draw a layer on while its WebGL context is lost. Without one the layer stays blank. */
+  replaceCanvas?(index: number): SceneCanvas | null;
+  /** The canvas handed out by replaceCanvas is no longer drawn on */
+  releaseCanvas?(index: number): void;
+  /** The scene stopped drawing for good (its worker failed) and needs replacing, on new canvases */
+  onFailed?(): void;
+}
+
+/** A running snow field: the simulation, its wind, and the renderers drawing it onto the layer canvases */
+export interface SnowScene {
+  setOptions(options: SceneOptions): void;
+  resize(viewport: SceneViewport): void;
+  setPointer(pointer: PointerState): void;
+  setObstacles(obstacles: ObstacleRect[] | null): void;
+  setSprites(sheet: SpriteSheet | null): void;
+  /** Override the base wind (null hands control back to the `wind` option) */
+  setWind(value: number | null): void;
+  /** Run the animation loop (idempotent) */
+  start(): void;
+  stop(): void;
+  /** Advance the simulation by `dtMs` (at most 10 s; invalid values are ignored) and draw */
+  step(dtMs: number): void;
+  draw(): void;
+  /** Regenerate the field and restart the wind history */
+  reset(): void;
+  /** Spawn one-shot flakes just above the viewport (into the burst layer of the stack) */
+  burst(count: number): void;
+  clearAccumulation(): void;
+  stats(): SceneStats;
+  destroy(): void;
+}
+
+// Size/speed band of flakes generated for one layer at the current density and radius options
+interface ParticleBand {
+  count: number;
+  rMin: number;
+  rMax: number;
+  speed: number; // Speed multiplier (applied to vy)
+}
+
+const resolveBands = (layers: ResolvedLayer[], options: SceneOptions): ParticleBand[] => {
+  const { density } = QUALITY_SETTINGS[options.qualityLevel];
+  return layers.map((layer) => {
+    const [rMin, rMax] = layerRadiusRange(layer, options.minRadius, options.maxRadius);
+    return { count: layerCount(layer, options.density * density), rMin, rMax, speed: layer.speed };
+  });
+};
+
+const sameBands = (a: ParticleBand[], b: ParticleBand[]) => a.length === b.length && a.every((band, index) => (
+  band.count === b[index].count && band.rMin === b[index].rMin && band.rMax === b[index].rMax
+));
+
+// Initial state of the dynamic wind (no gust in progress)
+const createWindState = () => ({
+  time: 0,
+  gustTime: 0, // Seconds left of the gust in progress
+  gustDuration: 0,
+  gustStrength: 0,
+  gustDirection: 1,
+  gust: 0, // Last computed gust factor (also stirs up the turbulence)
+  current: 0, // Last computed wind value
+});
+
+// Workers without requestAnimationFrame tick on a timer at the simulation rate. Returns a canceller.
+const requestFrame = (callback: () => void): (() => void) => {
+  if (typeof requestAnimationFrame === 'function') {
+    const id = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(id);
+  }
+  const id = setTimeout(callback, SIMULATION_STEP_MS);
+  return () => clearTimeout(id);
+};
+
+// Both kinds of canvas are drawn on through the page's context type (the offscreen one has every method used)
+const context2d = (canvas: SceneCanvas) => (canvas as HTMLCanvasElement).getContext('2d');
+
+/** Stats before a scene has reported any */
+export function emptyStats(layers: ResolvedLayer[], quality: QualityLevel, worker: boolean): SceneStats {
+  const particles: SceneStats['particles'] = { total: 0 };
+  layers.forEach((layer) => {
+    particles[layer.name] = 0;
+  });
+  return { time: 0, wind: 0, renderer: 'canvas', fallback: false, worker, fps: 0, frameTime: 0, quality, particles };
+}
+
+/**
+ * Set up the renderers on the layer canvases (back to front) and generate the field. The scene
+ * doesn't touch the document, so it runs in a worker as well as on the page.
+ */
+export function createScene(
+  canvases: SceneCanvas[],
+  setup: SceneSetup,
+  initialOptions: SceneOptions,
+  viewport: SceneViewport,
+  events: SceneEvents
+): SnowScene {
+  const { layers } = setup;
+  const { diagnostics } = events;
+  const singleContext = setup.renderer === 'webgl-single';
+  let options = initialOptions;
+
+  // Container size in CSS pixels, and the size the field was last generated or fitted for
+  let { width, height, ratio } = viewport;
+  let fieldWidth = 0;
+  let fieldHeight = 0;
+
+  // Flakes of each layer
+  let particles: Particle[][] = [];
+
+  // Size/speed band of each layer, and the bands and roughness the field was last generated for or
+  // transitioned to. Option changes ease the running field towards new bands (see easeTransition).
+  let bands = resolveBands(layers, options);
+  let applied = { bands, roughness: options.roughness };
+  let transition: FieldTransition = createFieldTransition(options.roughness);
+
+  // Random sources: particles and wind draw from separate streams so that, for a given seed,
+  // the wind history doesn't depend on how many flakes are on screen
+  let particleRandom: RandomSource = Math.random;
+  let windRandom: RandomSource = Math.random;
+  let wind = createWindState();
+  // Noise lattice of the turbulent wind field (built with the wind history)
+  let turbulenceField: TurbulenceField | null = null;
+  // Wind set through setWind; a new `wind` option takes control back
+  let windOverride: number | null = null;
+
+  // Pointer position relative to the container
+  const pointer: PointerState = { x: 0, y: 0, active: false };
+  // Settled snow along the bottom edge (only while `accumulation` is on)
+  let ground: SnowGround | null = null;
+  // Obstacles with their snow piles, bucketed for the container width
+  let obstacleField: ObstacleField | null = null;
+  // Sprite atlas, once loaded. Until then flakes are drawn with `shape`.
+  let sprites: SpriteSheet | null = null;
+  // Flakes pre-rendered for the Canvas 2D renderer, filled on first use
+  const flakeCache = createFlakeCache();
+
+  // WebGL state for each layer (in single-context mode only the first is used, for all layers)
+  const webgl: (WebGLState | null)[] = [];
+  // Stand-in 2D canvases for layers whose WebGL context was lost (a canvas can't switch to another context type)
+  const standIns: (SceneCanvas | null)[] = [];
+
+  const clock = { lastTime: 0, accumulator: 0 };
+  let cancelFrame: (() => void) | null = null;
+  let fitTimer: ReturnType<typeof setTimeout> | undefined;
+  // Frame rate and frame time averages for the stats, and the frame time governor of `quality: 'auto'`
+  const frameStats = createFrameStats();
+  let governor = createQualityGovernor(options.qualityLevel);
+
+  // Helper to generate a random number between min and max
+  const random = (min: number, max: number) => particleRandom() * (max - min) + min;
+
+  const resetWind = () => {
+    windRandom = createRandom(options.seed, 'wind');
+    wind = createWindState();
+    turbulenceField = createTurbulenceField(createRandom(options.seed, 'turbulence'));
+  };
+
+  // Calculate dynamic wind with natural variation
+  const getDynamicWind = (baseWind: number, dt: number) => {
+    const state = wind;
+    const rand = windRandom;
+    state.time += dt; // Elapsed simulation time in seconds
+
+    // Primary slow oscillation (direction changes every ~20-40 seconds)
+    const slowWave = Math.sin(state.time * 0.05) * 0.7;
+
+    // Secondary faster oscillation for variation
+    const mediumWave = Math.sin(state.time * 0.15) * 0.3;
+
+    // Tertiary quick flutter
+    const quickWave = Math.sin(state.time * 0.8) * 0.1;
+
+    // Random gusts (frequency, strength and duration come from the preset)
+    const { chance, strength, duration } = options.gusts;
+    state.gustTime -= dt;
+    if (state.gustTime <= 0) {
+      // Start a new gust randomly (checked once per fixed step, by default about every 33 seconds)
+      if (rand() < chance) {
+        state.gustStrength = strength[0] + rand() * (strength[1] - strength[0]); // Gust intensity
+        state.gustDirection = rand() > 0.5 ? 1 : -1;
+        state.gustDuration = duration[0] + rand() * (duration[1] - duration[0]); // Gust duration in seconds
+        state.gustTime = state.gustDuration;
+      }
+    }
+
+    // Gust easing (smooth fade in/out over the gust's duration)
+    const gustFactor = state.gustTime > 0
+      ? Math.sin((state.gustTime / state.gustDuration) * Math.PI) * state.gustStrength * state.gustDirection
+      : 0;
+
+    state.gust = gustFactor;
+
+    // Combine all factors with the base wind
+    const dynamicMultiplier = 1 + slowWave + mediumWave + quickWave + gustFactor;
+
+    state.current = baseWind * dynamicMultiplier;
+    return state.current;
+  };
+
+  const generateParticles = (
+    areaWidth: number,
+    areaHeight: number,
+    count: number,
+    rMin: number,
+    rMax: number,
+    sMult: number, // Speed Multiplier (applied to vy)
+    band: number // Index of the layer
+  ) => {
+    const rand = particleRandom;
+    const generated: Particle[] = [];
+    for (let i = 0; i < count; i++) {
+      const radius = random(rMin, rMax);
+      // Normalized size factor 0..1
+      const sizeFactor = (radius - rMin) / (rMax - rMin || 1);
+
+      // Opacity calculation: larger = more visible, plus randomness
+      let opacity = 0.1 + (sizeFactor * 0.7) + (rand() * 0.6 - 0.3);
+      opacity = Math.max(0.1, Math.min(1.0, opacity));
+
+      // Speed calculation: correlated with absolute radius.
+      // Parallax effect: Larger flakes (closer) must fall faster.
+      // We assume standard 'Mid' radius is roughly 2.5px.
+      // We normalize by dividing by 2.5 to get a base factor around 1.0 for mid-sized flakes.
+      // sMult further separates the layers (Back=0.6, Front=1.4).
+      const baseSpeed = (radius / 2.5) * sMult;
+      const speedVariance = random(0.85, 1.15);
+
+      // Parallax Sway: Larger flakes should sway more in absolute pixels than tiny background dots
+      const sizeScale = Math.max(0.5, radius / 2.5);
+
+      const x = rand() * areaWidth;
+      const y = rand() * areaHeight;
+
+      generated.push({
+        x,
+        y,
+        prevX: x,
+        prevY: y,
+        radius,
+        opacity,
+        vx: random(-0.1, 0.1) * sizeScale, // Scale drift with size
+        vy: baseSpeed * speedVariance,
+        wobble: rand() * Math.PI * 2,
+        wobbleSpeed: random(0.005, 0.03),
+        swayAmplitude: random(0.3, 0.8) * sizeScale, // Scale sway with size
+        shapeSeed: rand() * 1000, // Stable seed for WebGL shape
+        band,
+      });
+    }
+    return generated;
+  };
+
+  const initParticles = () => {
+    // Restart the particle stream so the same seed and size always produce the same field
+    particleRandom = createRandom(options.seed, 'particles');
+
+    particles = bands.map((band, index) => (
+      generateParticles(width, height, band.count, band.rMin, band.rMax, band.speed, index)
+    ));
+    fieldWidth = width;
+    fieldHeight = height;
+    applied = { bands, roughness: options.roughness };
+    transition = createFieldTransition(options.roughness);
+  };
+
+  // Fit the existing field into new bounds instead of regenerating it: positions are rescaled
+  // (or scattered, if the old bounds were empty) and each layer is topped up or trimmed to its count
+  const fitParticles = () => {
+    const rand = particleRandom;
+    const scaleX = fieldWidth > 0 ? width / fieldWidth : 0;
+    const scaleY = fieldHeight > 0 ? height / fieldHeight : 0;
+
+    particles = bands.map((band, index) => {
+      let count = 0;
+      const kept: Particle[] = [];
+
+      (particles[index] ?? []).forEach((p) => {
+        if (!p.transient) {
+          if (count >= band.count) return;
+          count++;
+        }
+        p.x = scaleX ? p.x * scaleX : rand() * width;
+        p.y = scaleY ? p.y * scaleY : rand() * height;
+        p.prevX = p.x;
+        p.prevY = p.y;
+        kept.push(p);
+      });
+
+      if (count < band.count) {
+        const added = generateParticles(width, height, band.count - count, band.rMin, band.rMax, band.speed, index);
+        added.forEach((p) => kept.push(p));
+      }
+      return kept;
+    });
+
+    fieldWidth = width;
+    fieldHeight = height;
+  };
+
+  // Start easing the running field into new bands and roughness
+  const planTransition = () => {
+    const { roughness } = options;
+    if (sameBands(applied.bands, bands) && applied.roughness === roughness) return;
+    const steps = Math.max(1, Math.round(options.transitionDuration / SIMULATION_STEP_MS));
+
+    bands.forEach((band, index) => {
+      const previous = applied.bands[index] ?? band;
+      const resized = band.rMin !== previous.rMin || band.rMax !== previous.rMax;
+      const from = { rMin: previous.rMin, rMax: previous.rMax };
+      const to = { rMin: band.rMin, rMax: band.rMax };
+      let count = 0;
+
+      (particles[index] ?? []).forEach((p) => {
+        // Splash droplets and retired flakes are gone soon anyway
+        if (p.splash !== undefined || p.fade !== undefined) return;
+        if (!p.transient) count++;
+        if (resized) planMorph(p, from, to, steps);
+      });
+      transition.rates[index] = Math.abs(band.count - count) / steps;
+      transition.credit[index] = transition.credit[index] ?? 0;
+    });
+    transition.roughnessRate = Math.abs(roughness - transition.roughness) / steps;
+    applied = { bands, roughness };
+  };
+
+  // One step of a running transition: add flakes above the top edge or retire them (they fade
+  // out) until each layer holds its count, and ease the roughness the shapes are drawn with
+  const easeTransition = () => {
+    const { roughness, transitionDuration } = options;
+    const steps = Math.max(1, Math.round(transitionDuration / SIMULATION_STEP_MS));
+
+    const gap = roughness - transition.roughness;
+    if (gap !== 0) {
+      transition.roughness = Math.abs(gap) <= transition.roughnessRate || !transition.roughnessRate
+        ? roughness
+        : transition.roughness + Math.sign(gap) * transition.roughnessRate;
+    }
+
+    particles.forEach((layerParticles, index) => {
+      const rate = transition.rates[index];
+      const band = bands[index];
+      if (!rate || !band) return;
+
+      let count = 0;
+      layerParticles.forEach((p) => {
+        if (!p.transient) count++;
+      });
+      const missing = band.count - count;
+      transition.credit[index] += rate;
+      const due = Math.min(Math.floor(transition.credit[index]), Math.abs(missing));
+      transition.credit[index] -= due;
+      if (Math.abs(missing) === due) {
+        transition.rates[index] = 0;
+        transition.credit[index] = 0;
+      }
+
+      if (missing > 0) {
+        generateParticles(width, height, due, band.rMin, band.rMax, band.speed, index).forEach((p) => {
+          // Without a transition the flakes appear all at once, scattered like a regenerated field
+          if (steps > 1) {
+            p.y = -p.radius;
+            p.prevY = p.y;
+          }
+          layerParticles.push(p);
+        });
+      } else {
+        let left = due;
+        for (let i = layerParticles.length - 1; i >= 0 && left > 0; i--) {
+          if (layerParticles[i].transient) continue;
+          retireParticle(layerParticles[i], steps);
+          left--;
+        }
+      }
+    });
+  };
+
+  const updateParticles = (
+    layerParticles: Particle[],
+    wMult: number, // Wind multiplier for this layer (also scales the pointer force: nearer layers react more)
+    currentWind: number, // Dynamic wind value
+    layerGround: SnowGround | null = null, // Snowbank flakes of this layer settle on
+    layerObstacles: ObstacleField | null = null, // Elements flakes of this layer settle on
+    splashes = false // Whether rain drops of this layer splash where they hit
+  ) => {
+    const { speed, precipitation, turbulence: airflow, accumulation, interaction } = options;
+    const field = airflow ? turbulenceField : null;
+    // Gusts blow harder through the eddies too
+    const { time, gust } = wind;
+    const intensity = 1 + Math.abs(gust);
+    const { maxObstacleDepth } = accumulation ?? DEFAULT_ACCUMULATION;
+    const thrown: Particle[] = [];
+    let kept = 0;
+
+    layerParticles.forEach((p) => {
+      if (p.splash !== undefined) {
+        if (updateSplash(p)) layerParticles[kept++] = p;
+        return;
+      }
+      // Grow, shrink or fade out after a density, radius or roughness change
+      if ((p.morph || p.fade !== undefined) && !stepTransition(p)) return;
+
+      p.prevX = p.x;
+      p.prevY = p.y;
+      p.wobble += p.wobbleSpeed;
+      // Rain drops fall fast and straight
+      const rain = isRainDrop(p, precipitation);
+
+      const primarySway = Math.sin(p.wobble) * p.swayAmplitude;
+      const secondarySway = Math.cos(p.wobble * 1.8 + p.y * 0.01) * (p.swayAmplitude * 0.2);
+
+      // Apply dynamic wind * layer multiplier + individual drift + sway
+      p.x += (currentWind * wMult) + p.vx + (primarySway + secondarySway) * (rain ? RAIN_SWAY : 1);
+      p.y += speed * p.vy * (rain ? RAIN_SPEED : 1);
+
+      // Swirl with the local eddy (nearer layers drift further, as with the wind)
+      if (airflow && field) {
+        sampleTurbulence(field, airflow, p.x, p.y, time, intensity, eddy);
+        p.x += eddy.x * wMult;
+        p.y += eddy.y * wMult;
+      }
+
+      if (interaction && pointer.active) {
+        applyPointerForce(p, pointer, interaction, wMult);
+      }
+
+      // Settle on the snowbank once the flake reaches its surface (rain drops only splash)
+      const onGround = layerGround !== null && accumulation !== null && p.x >= 0 && p.x <= width;
+      const surface = onGround ? height - groundHeightAt(layerGround, p.x) : height;
+      const landed = onGround && p.y + p.radius >= surface;
+      if (landed && !rain) {
+        depositSnow(layerGround, p.x, p.radius, accumulation.maxDepth);
+      }
+
+      // Settle on an obstacle whose top edge the flake crossed during this step
+      const obstacle = layerObstacles
+        ? findObstacleLanding(layerObstacles, p.x, p.prevY + p.radius, p.y + p.radius)
+        : null;
+      if (obstacle && !rain) {
+        depositSnow(obstacle.pile, p.x - obstacle.x, p.radius, maxObstacleDepth);
+      }
+
+      // Rain drops splash on whatever they hit first, the bottom edge included
+      const hitBottom = rain ? p.y >= surface : p.y > height + p.radius;
+      if (rain && splashes && (landed || obstacle || hitBottom)) {
+        const y = obstacle ? obstacle.y - groundHeightAt(obstacle.pile, p.x - obstacle.x) : surface;
+        spawnSplash(p, y, particleRandom, thrown);
+      }
+
+      // Wrap logic (reset the previous position too so the flake isn't interpolated across the screen)
+      if (landed || obstacle || hitBottom) {
+        // Burst flakes are one-shot: drop them instead of respawning
+        if (p.transient) return;
+        p.y = -p.radius;
+        p.x = particleRandom() * width;
+        p.prevX = p.x;
+        p.prevY = p.y;
+      }
+      if (p.x > width + p.radius) {
+        p.x = -p.radius;
+        p.prevX = p.x;
+      } else if (p.x < -p.radius) {
+        p.x = width + p.radius;
+        p.prevX = p.x;
+      }
+
+      layerParticles[kept++] = p;
+    });
+
+    layerParticles.length = kept;
+    thrown.forEach((p) => layerParticles.push(p));
+  };
+
+  // Canvas 2D drawing function (fallback)
+  const drawParticlesCanvas = (
+    ctx: CanvasRenderingContext2D,
+    layerParticles: Particle[],
+    layerOpacity: number,
+    alpha: number, // Interpolation factor between the previous and current simulation step
+    shape: 'dot' | FlakeShape | 'sprite' // Plain discs for 'dot' layers, otherwise the sprites or the shape option
+  ) => {
+    const { palette, precipitation, opacity: globalOpacity } = options;
+    const { simpleShapes } = QUALITY_SETTINGS[options.qualityLevel];
+    const sheet = sprites;
+    // Draw in CSS pixels on a backing store scaled by the pixel ratio
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    // Each flake's color is baked into its cached image (the rgba alpha applies on top of globalAlpha)
+    const tinted = palette.length > 1;
+    const cacheLimit = flakeCacheLimit(palette.length);
+    const { roughness } = transition;
+
+    layerParticles.forEach((p) => {
+      const color = tinted ? swatchFor(palette, p).css : palette[0].css;
+      // Combine particle opacity * layer multiplier * global opacity
+      ctx.globalAlpha = Math.max(0, Math.min(1, p.opacity * layerOpacity * globalOpacity));
+
+      if (isRainDrop(p, precipitation)) {
+        ctx.globalAlpha *= RAIN_OPACITY;
+        ctx.fillStyle = color;
+        drawRainCanvas(ctx, rainStreak(p, alpha, streak));
+        return;
+      }
+
+      const x = p.prevX + (p.x - p.prevX) * alpha;
+      const y = p.prevY + (p.y - p.prevY) * alpha;
+      // Rotation based on wobble phase (oscillates back and forth)
+      const rotation = Math.sin(p.wobble);
+
+      if (shape === 'sprite' && sheet && p.splash === undefined) {
+        ctx.save();
+        ctx.translate(x, y);
+        ctx.rotate(rotation);
+        drawSprite(ctx, sheet, spriteFor(sheet, p), p.radius);
+        ctx.restore();
+        return;
+      }
+
+      // Everything else is stamped from pre-rendered flakes. Splash droplets, dots, crystals too
+      // small for their arms and simplified irregular flakes are plain discs.
+      let cached: CachedShape = 'circle';
+      if (p.splash === undefined) {
+        if (shape === 'crystal' && p.radius >= CRYSTAL_MIN_RADIUS) cached = 'crystal';
+        else if (shape === 'irregular' && !simpleShapes) cached = 'irregular';
+      }
+      const entry = flakeCacheEntry(flakeCache, cached, color, roughness, ratio, cacheLimit);
+      if (drawCachedFlake(ctx, entry, p, x, y, rotation)) return;
+
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(x, y, p.radius, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  };
+
+  const stats = (): SceneStats => {
+    // Layers sharing a name are counted together
+    const counts: SceneStats['particles'] = { total: 0 };
+    layers.forEach((layer, index) => {
+      const count = particles[index]?.length ?? 0;
+      counts[layer.name] = (counts[layer.name] ?? 0) + count;
+      counts.total += count;
+    });
+    const renderer = setup.renderer !== 'canvas' && webgl.length > 0 && webgl.every(Boolean) ? 'webgl' : 'canvas';
+    return {
+      time: wind.time,
+      wind: wind.current,
+      renderer,
+      fallback: setup.webglRequested && renderer === 'canvas',
+      worker: setup.worker,
+      fps: frameStats.fps,
+      frameTime: frameStats.frameTime,
+      quality: options.qualityLevel,
+      particles: counts,
+    };
+  };
+
+  // Match the canvas backing stores to the container at the pixel ratio
+  const resizeCanvases = () => {
+    canvases.concat(standIns.filter((canvas): canvas is SceneCanvas => canvas !== null)).forEach((canvas) => {
+      canvas.width = Math.round(width * ratio);
+      canvas.height = Math.round(height * ratio);
+    });
+  };
+
+  // Tell the `onRendererChange` listener which renderer draws each layer
+  const reportRenderer = (reason: RendererChangeEvent['reason']) => {
+    const layerRenderers = layers.map((_, index): RendererChangeEvent['renderer'] => (
+      (singleContext ? webgl[0] : webgl[index]) ? 'webgl' : 'canvas'
+    ));
+    const { renderer, fallback } = stats();
+    events.onRendererChange({ renderer, layers: layerRenderers, fallback, reason });
+  };
+
+  // Advance the simulation by real elapsed time in fixed steps so speed and wind are
+  // independent of the display refresh rate
+  const advance = (dtMs: number) => {
+    const { accumulation } = options;
+
+    // Create, resample or drop the snowbank to follow the `accumulation` option and container width
+    if (!accumulation) {
+      ground = null;
+    } else if (!ground || ground.width !== width) {
+      ground = createGround(width, ground);
+    }
+    const meltRate = (accumulation ?? DEFAULT_ACCUMULATION).meltRate;
+
+    clock.accumulator += dtMs;
+    while (clock.accumulator >= SIMULATION_STEP_MS) {
+      // Calculate dynamic wind with natural variation
+      const currentWind = getDynamicWind(windOverride ?? options.wind, SIMULATION_STEP_MS / 1000);
+
+      particles.forEach((layerParticles, index) => {
+        const { wind: wMult, settle } = layers[index];
+        updateParticles(
+          layerParticles,
+          wMult,
+          currentWind,
+          settle ? ground : null,
+          settle ? obstacleField : null,
+          settle
+        );
+      });
+      easeTransition();
+
+      const melt = meltRate * (SIMULATION_STEP_MS / 1000);
+      if (ground) settleGround(ground, melt);
+      obstacleField?.obstacles.forEach((obstacle) => settleGround(obstacle.pile, melt));
+
+      clock.accumulator -= SIMULATION_STEP_MS;
+    }
+  };
+
+  // Piles are drawn over the first layer whose flakes settle (the mid layer by default)
+  const pileLayer = layers.findIndex((layer) => layer.settle);
+
+  // Single-context layer lists, reused every frame (the particle arrays are swapped in before drawing):
+  // the layers up to the piles, and the layers in front of them
+  const splitAt = pileLayer < 0 ? layers.length : pileLayer + 1;
+  const toWebGLLayer = (layer: ResolvedLayer): WebGLLayer => ({
+    particles: [],
+    layerOpacity: layer.opacity,
+    shape: SHAPE_CODES.dot,
+    precipitation: 'snow',
+    blur: layer.blur,
+  });
+  const farLayers = layers.slice(0, splitAt).map(toWebGLLayer);
+  const nearLayers = layers.slice(splitAt).map(toWebGLLayer);
+
+  const draw = () => {
+    const { color, palette, precipitation, shape, opacity: globalOpacity } = options;
+    const qualitySettings = QUALITY_SETTINGS[options.qualityLevel];
+    const { roughness } = transition;
+    const obstacleList = obstacleField?.obstacles ?? [];
+    const pileOpacity = globalOpacity * GROUND_OPACITY;
+
+    // Fraction of a step left over, used to interpolate positions between the last two steps
+    const alpha = clock.accumulator / SIMULATION_STEP_MS;
+    webgl.forEach((state) => {
+      if (!state) return;
+      // A sheet the GPU refuses is dropped, so flakes fall back to the shape
+      sprites = bindSpriteSheet(state, sprites);
+      state.simpleShapes = qualitySettings.simpleShapes;
+    });
+    // Sprites replace the shape once loaded
+    const sheet = sprites;
+    const layerShape = (layer: ResolvedLayer) => {
+      if (layer.shape === 'dot') return 'dot';
+      return sheet ? 'sprite' : shape;
+    };
+
+    const drawPilesWebGL = (state: WebGLState) => {
+      if (ground) renderGroundWebGL(state, ground, width, height, color, pileOpacity);
+      for (const obstacle of obstacleList) {
+        renderGroundWebGL(state, obstacle.pile, width, height, color, pileOpacity, obstacle.y, obstacle.x);
+      }
+    };
+
+    // Single context: the far layers in one draw call, the piles over them, then the near layers
+    if (singleContext && webgl[0]) {
+      for (let i = 0; i < farLayers.length; i++) {
+        farLayers[i].particles = particles[i] ?? [];
+        farLayers[i].shape = SHAPE_CODES[layerShape(layers[i])];
+        farLayers[i].precipitation = precipitation;
+        farLayers[i].blur = qualitySettings.blur ? layers[i].blur : 0;
+      }
+      for (let i = 0; i < nearLayers.length; i++) {
+        nearLayers[i].particles = particles[splitAt + i] ?? [];
+        nearLayers[i].shape = SHAPE_CODES[layerShape(layers[splitAt + i])];
+        nearLayers[i].precipitation = precipitation;
+        nearLayers[i].blur = qualitySettings.blur ? layers[splitAt + i].blur : 0;
+      }
+      renderWebGLLayers(webgl[0], farLayers, width, height, palette, globalOpacity, roughness, alpha);
+      drawPilesWebGL(webgl[0]);
+      renderWebGLLayers(webgl[0], nearLayers, width, height, palette, globalOpacity, roughness, alpha, false);
+      return;
+    }
+
+    // One canvas per layer, back to front ('dot' layers skip the shape detail)
+    layers.forEach((layer, index) => {
+      const layerParticles = particles[index] ?? [];
+      const state = webgl[index];
+      const flakeShape = layerShape(layer);
+
+      if (setup.renderer !== 'canvas' && state) {
+        renderWebGL(state, layerParticles, width, height, palette, globalOpacity, layer.opacity, roughness, SHAPE_CODES[flakeShape], alpha, precipitation);
+        if (index === pileLayer) drawPilesWebGL(state);
+        return;
+      }
+
+      // A canvas holding a lost WebGL context has no 2D context to give
+      const ctx = context2d(standIns[index] ?? canvases[index]);
+      if (!ctx) return;
+      drawParticlesCanvas(ctx, layerParticles, layer.opacity, alpha, flakeShape);
+      if (index === pileLayer) {
+        if (ground) drawGroundCanvas(ctx, ground, height, color, pileOpacity);
+        for (const obstacle of obstacleList) {
+          drawGroundCanvas(ctx, obstacle.pile, obstacle.y, color, pileOpacity, obstacle.x);
+        }
+      }
+    });
+  };
+
+  const loop = () => {
+    cancelFrame = null;
+    const now = performance.now();
+    const { maxFps } = options;
+    const frameInterval = maxFps && maxFps > 0 ? 1000 / maxFps : 0;
+
+    // Skip display frames to honour maxFps; the skipped time is simulated on the next drawn frame
+    if (now - clock.lastTime < frameInterval - FRAME_TOLERANCE_MS) {
+      cancelFrame = requestFrame(loop);
+      return;
+    }
+
+    // Cap the elapsed time so a long stall doesn't trigger a burst of catch-up steps
+    const elapsed = now - clock.lastTime;
+    advance(Math.min(elapsed, Math.max(MAX_FRAME_DELTA_MS, frameInterval)));
+    clock.lastTime = now;
+
+    draw();
+    const work = performance.now() - now;
+
+    // Let the governor judge the frame against the display rate (or maxFps, if lower)
+    if (options.quality === 'auto') {
+      const level = governor.level;
+      if (sampleFrame(governor, elapsed, work, Math.max(1000 / 60, frameInterval)) !== level) {
+        events.onQualityChange(governor.level);
+      }
+    }
+
+    if (recordFrame(frameStats, elapsed, work)) events.onStats(stats());
+    cancelFrame = requestFrame(loop);
+  };
+
+  // A lost WebGL context (GPU reset, too many contexts) blanks its canvas: draw the affected layers
+  // with Canvas 2D on a stand-in canvas, if there is one, until the context is restored
+  const handleContextLost = (index: number) => (event: Event) => {
+    // Without preventDefault the browser never restores the context
+    event.preventDefault();
+    const standIn = events.replaceCanvas?.(index) ?? null;
+    if (standIn) {
+      standIn.width = canvases[index].width;
+      standIn.height = canvases[index].height;
+      standIns[index] = standIn;
+    }
+    webgl[index] = null;
+
+    const layer = singleContext ? undefined : layers[index].name;
+    const until = standIn ? 'using Canvas fallback until it is restored' : 'nothing is drawn until it is restored';
+    diagnostics.error({
+      code: 'context-lost',
+      message: `WebGL context ${layer ? `of the ${layer} layer ` : ''}lost, ${until}`,
+      layer,
+    });
+    reportRenderer('context-lost');
+    draw();
+  };
+
+  const handleContextRestored = (index: number) => () => {
+    const state = initWebGL(canvases[index], diagnostics);
+    // Stay on the stand-in canvas if the state can't be rebuilt
+    if (!state) return;
+    webgl[index] = state;
+    if (standIns[index]) {
+      standIns[index] = null;
+      events.releaseCanvas?.(index);
+    }
+    // Resizing clears the 2D canvases the other layers were drawn on in the meantime (single context)
+    resizeCanvases();
+
+    diagnostics.info('WebGL context restored');
+    reportRenderer('context-restored');
+    draw();
+  };
+
+  resizeCanvases();
+
+  const where = setup.worker ? ' in a worker' : '';
+  if (singleContext) {
+    webgl[0] = initWebGL(canvases[0], diagnostics);
+
+    if (webgl[0]) {
+      diagnostics.info(`Using single-context WebGL renderer${where}`);
+    } else {
+      diagnostics.error({ code: 'webgl-init', message: 'WebGL init failed, using Canvas fallback' });
+    }
+  } else if (setup.renderer === 'webgl') {
+    canvases.forEach((canvas, index) => {
+      webgl[index] = initWebGL(canvas, diagnostics);
+    });
+
+    if (webgl.every(Boolean)) {
+      diagnostics.info(`Using WebGL renderer${where}`);
+    } else {
+      diagnostics.error({ code: 'webgl-init', message: 'WebGL init failed, using Canvas fallback' });
+    }
+  } else {
+    diagnostics.info(`Using Canvas 2D renderer${where}`);
+  }
+
+  resetWind();
+  initParticles();
+  reportRenderer(setup.reason ?? 'init');
+
+  const contextListeners = canvases.flatMap((canvas: EventTarget, index) => {
+    if (!webgl[index]) return [];
+    const lost = handleContextLost(index);
+    const restored = handleContextRestored(index);
+    canvas.addEventListener('webglcontextlost', lost);
+    canvas.addEventListener('webglcontextrestored', restored);
+    return [() => {
+      canvas.removeEventListener('webglcontextlost', lost);
+      canvas.removeEventListener('webglcontextrestored', restored);
+    }];
+  });
+
+  const stop = () => {
+    cancelFrame?.();
+    cancelFrame = null;
+  };
+
+  return {
+    setOptions: (next) => {
+      const previous = options;
+      options = next;
+      bands = resolveBands(layers, next);
+      if (next.wind !== previous.wind) windOverride = null;
+      // Picking up from a fixed level: the governor starts over from it
+      if (next.quality === 'auto' && previous.quality !== 'auto') governor = createQualityGovernor(next.qualityLevel);
+
+      if (next.seed !== previous.seed) {
+        // A new seed restarts the wind history and regenerates the field
+        resetWind();
+        initParticles();
+      } else {
+        planTransition();
+      }
+    },
+    resize: (next) => {
+      if (next.width === width && next.height === height && next.ratio === ratio) return;
+      ({ width, height, ratio } = next);
+      // Canvases follow the container immediately; fitting the particles waits until the size settles
+      resizeCanvases();
+      if (obstacleField) obstacleField = buildObstacleField(obstacleField.obstacles, width);
+      // Resizing clears the canvases; a running loop redraws them on its next frame
+      if (!cancelFrame) draw();
+      clearTimeout(fitTimer);
+      fitTimer = setTimeout(fitParticles, RESIZE_DEBOUNCE_MS);
+    },
+    setPointer: (next) => {
+      pointer.x = next.x;
+      pointer.y = next.y;
+      pointer.active = next.active;
+    },
+    setObstacles: (obstacles) => {
+      obstacleField = obstacles
+        ? buildObstacleField(placeObstacles(obstacles, obstacleField?.obstacles ?? []), width)
+        : null;
+    },
+    setSprites: (sheet) => {
+      sprites = sheet;
+    },
+    setWind: (value) => {
+      windOverride = value;
+    },
+    start: () => {
+      if (cancelFrame) return;
+      // Restart the clock so time spent stopped isn't simulated
+      clock.lastTime = performance.now();
+      cancelFrame = requestFrame(loop);
+    },
+    stop,
+    step: (dtMs) => {
+      if (!Number.isFinite(dtMs) || dtMs < 0) {
+        diagnostics.warn(`step() expects a finite, non-negative number of milliseconds, got ${dtMs}`);
+        return;
+      }
+      advance(Math.min(dtMs, MAX_STEP_MS));
+      draw();
+    },
+    draw,
+    reset: () => {
+      initParticles();
+      resetWind();
+      clock.accumulator = 0;
+      draw();
+    },
+    burst: (count) => {
+      const index = burstLayerIndex(layers);
+      const target = particles[index];
+      if (!target) return;
+      const { rMin, rMax, speed: sMult } = bands[index];
+      const burst = generateParticles(width, height, count, rMin, rMax, sMult, index);
+
+      burst.forEach((p) => {
+        p.y = -p.radius - particleRandom() * height * 0.3;
+        p.prevY = p.y;
+        p.transient = true;
+        target.push(p);
+      });
+    },
+    clearAccumulation: () => {
+      if (ground) clearGround(ground);
+      obstacleField?.obstacles.forEach((obstacle) => clearGround(obstacle.pile));
+      draw();
+    },
+    stats,
+    destroy: () => {
+      stop();
+      clearTimeout(fitTimer);
+      contextListeners.forEach((remove) => remove());
+      standIns.forEach((standIn, index) => {
+        if (standIn) events.releaseCanvas?.(index);
+      });
+    },
+  };
+}
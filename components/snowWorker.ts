@@ -0,0 +1,84 @@
+import { Diagnostics } from './diagnostics';
+import { SnowScene, createScene } from './scene';
+import { WorkerEvent, WorkerRequest } from './workerProtocol';
+
+// The worker's global scope (the project is type-checked against the DOM library only)
+const scope = self as unknown as {
+  postMessage(event: WorkerEvent): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<WorkerRequest>) => void): void;
+};
+
+const post = (event: WorkerEvent) => scope.postMessage(event);
+
+// Messages are formatted on the page, which knows the logger
+const diagnostics: Diagnostics = {
+  info: (message) => post({ type: 'log', level: 'info', message }),
+  warn: (message) => post({ type: 'log', level: 'warn', message }),
+  error: (error) => post({ type: 'error', error }),
+};
+
+let scene: SnowScene | null = null;
+
+const snapshot = () => {
+  if (scene) post({ type: 'snapshot', stats: scene.stats() });
+};
+
+scope.addEventListener('message', ({ data }) => {
+  if (data.type === 'init') {
+    scene?.destroy();
+    scene = createScene(data.canvases, data.setup, data.options, data.viewport, {
+      diagnostics,
+      onRendererChange: (event) => post({ type: 'renderer', event }),
+      onQualityChange: (level) => post({ type: 'quality', level }),
+      onStats: (stats) => post({ type: 'stats', stats }),
+    });
+    snapshot();
+    return;
+  }
+  if (!scene) return;
+
+  switch (data.type) {
+    case 'options':
+      scene.setOptions(data.options);
+      break;
+    case 'resize':
+      scene.resize(data.viewport);
+      break;
+    case 'pointer':
+      scene.setPointer(data.pointer);
+      break;
+    case 'obstacles':
+      scene.setObstacles(data.obstacles);
+      break;
+    case 'sprites':
+      scene.setSprites(data.sheet);
+      break;
+    case 'wind':
+      scene.setWind(data.value);
+      break;
+    case 'start':
+      scene.start();
+      break;
+    case 'stop':
+      scene.stop();
+      break;
+    case 'step':
+      scene.step(data.dtMs);
+      snapshot();
+      break;
+    case 'draw':
+      scene.draw();
+      break;
+    case 'reset':
+      scene.reset();
+      snapshot();
+      break;
+    case 'burst':
+      scene.burst(data.count);
+      snapshot();
+      break;
+    case 'clear-accumulation':
+      scene.clearAccumulation();
+      break;
+  }
+});
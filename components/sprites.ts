@@ -0,0 +1,167 @@
+import { Particle, SpriteOptions } from '../types';
+import { Diagnostics, consoleDiagnostics } from './diagnostics';
+
+// Side of the square atlas cell each sprite is fitted into, in texels
+export const SPRITE_CELL_SIZE = 128;
+
+// Transparent border inside each cell, so filtering doesn't bleed a neighbour into a sprite's edge
+const CELL_MARGIN = 2;
+
+/** Side of the square a sprite is drawn into, as a multiple of the flake radius (before its `scale`) */
+export const SPRITE_BOX = 4;
+
+/** A sprite fitted into the atlas */
+export interface SpriteFrame {
+  cell: number; // Index of the atlas cell, row by row
+  scale: number;
+}
+
+/**
+ * Every sprite packed into one square, power-of-two atlas canvas: the Canvas 2D renderer draws
+ * from it with drawImage and the WebGL renderer uploads it as a single texture. The sheet posted
+ * to a worker carries a bitmap of the atlas instead.
+ */
+export interface SpriteSheet {
+  atlas: HTMLCanvasElement | ImageBitmap;
+  columns: number; // Cells per row (and rows)
+  frames: SpriteFrame[];
+  cumulativeWeights: number[]; // Running totals of the sprite weights, for weighted picking
+}
+
+/** A loaded image with the sprite settings that apply to it */
+export interface SpriteImage {
+  image: HTMLImageElement;
+  frame?: SpriteOptions['frame'];
+  weight: number;
+  scale: number;
+}
+
+const normalize = (sprite: string | SpriteOptions): SpriteOptions =>
+  typeof sprite === 'string' ? { src: sprite } : sprite;
+
+/** What a sprite list is loaded from, flattened: a new array of the same sprites gives the same values */
+export const spriteValues = (sprites: (string | SpriteOptions)[] | undefined): unknown[] =>
+  (sprites ?? []).flatMap((sprite) => {
+    const { src, frame, weight, scale } = normalize(sprite);
+    return [src, frame?.x, frame?.y, frame?.width, frame?.height, weight, scale];
+  });
+
+/** Resolve once the image has loaded (immediately for an image that already has) */
+export function loadImage(src: string | HTMLImageElement): Promise<HTMLImageElement> {
+  let image: HTMLImageElement;
+  if (typeof src === 'string') {
+    image = new Image();
+    // Images from other origins need CORS to be uploaded as a WebGL texture
+    image.crossOrigin = 'anonymous';
+    image.src = src;
+  } else {
+    image = src;
+    if (image.complete && image.naturalWidth > 0) return Promise.resolve(image);
+  }
+
+  return new Promise((resolve, reject) => {
+    image.addEventListener('load', () => resolve(image), { once: true });
+    image.addEventListener('error', () => reject(new Error(`Failed to load sprite ${image.src}`)), { once: true });
+  });
+}
+
+/**
+ * Pack loaded sprites into an atlas. Returns null when there is nothing to draw, or when a
+ * cross-origin image without CORS tainted the atlas (reported as a 'sprite-load' error: WebGL
+ * can't upload it and a worker can't receive it).
+ */
+export function buildSpriteSheet(sprites: SpriteImage[], diagnostics: Diagnostics = consoleDiagnostics): SpriteSheet | null {
+  const usable = sprites.filter((sprite) => sprite.weight > 0);
+  if (usable.length === 0 || typeof document === 'undefined') return null;
+
+  // Power-of-two atlas so the WebGL renderer can mipmap it
+  let columns = 1;
+  while (columns * columns < usable.length) columns *= 2;
+
+  const atlas = document.createElement('canvas');
+  atlas.width = columns * SPRITE_CELL_SIZE;
+  atlas.height = columns * SPRITE_CELL_SIZE;
+  const ctx = atlas.getContext('2d');
+  if (!ctx) return null;
+
+  const frames: SpriteFrame[] = [];
+  const cumulativeWeights: number[] = [];
+  let total = 0;
+
+  usable.forEach(({ image, frame, weight, scale }, cell) => {
+    const source = frame ?? { x: 0, y: 0, width: image.naturalWidth || image.width, height: image.naturalHeight || image.height };
+    // Fit into the cell keeping the aspect ratio, centered
+    const fit = (SPRITE_CELL_SIZE - CELL_MARGIN * 2) / Math.max(source.width, source.height, 1);
+    const width = source.width * fit;
+    const height = source.height * fit;
+    const x = (cell % columns) * SPRITE_CELL_SIZE + (SPRITE_CELL_SIZE - width) / 2;
+    const y = Math.floor(cell / columns) * SPRITE_CELL_SIZE + (SPRITE_CELL_SIZE - height) / 2;
+    ctx.drawImage(image, source.x, source.y, source.width, source.height, x, y, width, height);
+
+    frames.push({ cell, scale });
+    total += weight;
+    cumulativeWeights.push(total);
+  });
+
+  // Reading back a tainted canvas throws
+  try {
+    ctx.getImageData(0, 0, 1, 1);
+  } catch (error) {
+    diagnostics.error({ code: 'sprite-load', message: `Sprites from another origin need CORS: ${error}` });
+    return null;
+  }
+
+  return { atlas, columns, frames, cumulativeWeights };
+}
+
+/**
+ * Load the `sprites` prop into an atlas. Images are fetched once per URL (atlas entries can share
+ * one); images that fail to load are left out and reported as 'sprite-load' errors.
+ */
+export async function loadSpriteSheet(
+  sprites: (string | SpriteOptions)[],
+  diagnostics: Diagnostics = consoleDiagnostics
+): Promise<SpriteSheet | null> {
+  const options = sprites.map(normalize);
+  const pending = new Map<string | HTMLImageElement, Promise<HTMLImageElement | null>>();
+
+  const loaded = await Promise.all(
+    options.map((sprite) => {
+      let image = pending.get(sprite.src);
+      if (!image) {
+        image = loadImage(sprite.src).catch((error: Error) => {
+          diagnostics.error({ code: 'sprite-load', message: error.message });
+          return null;
+        });
+        pending.set(sprite.src, image);
+      }
+      return image;
+    })
+  );
+
+  const images: SpriteImage[] = [];
+  loaded.forEach((image, i) => {
+    if (!image) return;
+    const { frame, weight = 1, scale = 1 } = options[i];
+    images.push({ image, frame, weight, scale });
+  });
+  return buildSpriteSheet(images, diagnostics);
+}
+
+/** The sprite a flake is drawn with: a weighted pick derived from its shape seed, so it is stable */
+export function spriteFor(sheet: SpriteSheet, p: Particle): SpriteFrame {
+  const { frames, cumulativeWeights } = sheet;
+  const target = ((p.shapeSeed * 5.23) % 1) * cumulativeWeights[cumulativeWeights.length - 1];
+  for (let i = 0; i < frames.length - 1; i++) {
+    if (target < cumulativeWeights[i]) return frames[i];
+  }
+  return frames[frames.length - 1];
+}
+
+/** Draw a sprite centered on the origin of an already translated and rotated context */
+export function drawSprite(ctx: CanvasRenderingContext2D, sheet: SpriteSheet, frame: SpriteFrame, radius: number): void {
+  const side = radius * SPRITE_BOX * frame.scale;
+  const x = (frame.cell % sheet.columns) * SPRITE_CELL_SIZE;
+  const y = Math.floor(frame.cell / sheet.columns) * SPRITE_CELL_SIZE;
+  ctx.drawImage(sheet.atlas, x, y, SPRITE_CELL_SIZE, SPRITE_CELL_SIZE, -side / 2, -side / 2, side, side);
+}
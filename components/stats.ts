@@ -0,0 +1,47 @@
+import { SnowfallStats } from '../types';
+
+/** How often frame rate and frame time are averaged (and `onStats` and the debug HUD updated), in ms */
+export const STATS_INTERVAL_MS = 1000;
+
+/** Frame timings collected over the current averaging window, and the last window's averages */
+export interface FrameStats {
+  frames: number; // Frames drawn in the window
+  elapsed: number; // Time covered by the window, in ms
+  work: number; // Time spent simulating and drawing in the window, in ms
+  fps: number;
+  frameTime: number; // Average time spent simulating and drawing a frame, in ms
+}
+
+export const createFrameStats = (): FrameStats => ({ frames: 0, elapsed: 0, work: 0, fps: 0, frameTime: 0 });
+
+/**
+ * Record a drawn frame: `elapsed` since the previous one and `work` spent on this one. Returns
+ * true when this frame completed a window and the averages were updated.
+ */
+export function recordFrame(stats: FrameStats, elapsed: number, work: number): boolean {
+  stats.frames++;
+  stats.elapsed += elapsed;
+  stats.work += work;
+  if (stats.elapsed < STATS_INTERVAL_MS) return false;
+
+  stats.fps = (stats.frames * 1000) / stats.elapsed;
+  stats.frameTime = stats.work / stats.frames;
+  stats.frames = 0;
+  stats.elapsed = 0;
+  stats.work = 0;
+  return true;
+}
+
+/** Text of the debug HUD, one value per line */
+export function formatStats(stats: SnowfallStats): string {
+  const renderer = `${stats.fallback ? `${stats.renderer} (WebGL failed)` : stats.renderer}${stats.worker ? ' in worker' : ''}`;
+  const { total, ...layers } = stats.particles;
+  const lines = [
+    `${stats.fps.toFixed(0)} fps  ${stats.frameTime.toFixed(1)} ms`,
+    `${renderer}, ${stats.quality} quality`,
+    `${total} flakes`,
+    ...Object.entries(layers).map(([name, count]) => `  ${name} ${count}`),
+    `wind ${stats.wind.toFixed(2)}`,
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,71 @@
+import { Particle } from '../types';
+
+/** Default `transitionDuration`, in ms */
+export const DEFAULT_TRANSITION_MS = 1000;
+
+/** Radius range flakes of a layer are generated with */
+export interface FlakeSizing {
+  rMin: number;
+  rMax: number;
+}
+
+/** Progress of a change to the density, radius or roughness props while the field eases into it */
+export interface FieldTransition {
+  rates: number[]; // Flakes added (or retired) per step, per layer
+  credit: number[]; // Fractional flakes owed per layer, carried over to the next step
+  roughness: number; // Roughness the WebGL shapes are drawn with, easing towards the prop
+  roughnessRate: number; // Roughness change per step
+}
+
+export const createFieldTransition = (roughness: number): FieldTransition => ({
+  rates: [],
+  credit: [],
+  roughness,
+  roughnessRate: 0,
+});
+
+// Flake size in the pixel units sway and drift are scaled by (see generateParticles)
+const sizeScale = (radius: number) => Math.max(0.5, radius / 2.5);
+
+/**
+ * Ease a flake to the sizing of its layer over `steps` steps. The flake keeps its place within the
+ * radius range (so its opacity still fits its size), and its speed and sway scale with the radius.
+ * A flake already easing is retargeted from the end of its current transition. (Roughness isn't
+ * per flake: the renderers draw with the field's easing roughness, see FieldTransition.)
+ */
+export function planMorph(p: Particle, from: FlakeSizing, to: FlakeSizing, steps: number): void {
+  const source = p.morph ?? p;
+  const position = Math.max(0, Math.min(1, (source.radius - from.rMin) / (from.rMax - from.rMin || 1)));
+  const radius = to.rMin + position * (to.rMax - to.rMin);
+  const growth = source.radius > 0 ? radius / source.radius : 1;
+
+  p.morph = {
+    steps,
+    radius,
+    vy: source.vy * growth,
+    swayAmplitude: source.swayAmplitude * sizeScale(radius) / sizeScale(source.radius),
+  };
+}
+
+/** Fade a flake out over `steps` steps; it is removed instead of respawned */
+export function retireParticle(p: Particle, steps: number): void {
+  p.transient = true;
+  p.fade = p.opacity / steps;
+}
+
+/** Advance a flake's size transition and fade by one step. Returns false once it has faded out. */
+export function stepTransition(p: Particle): boolean {
+  const { morph } = p;
+  if (morph) {
+    const t = 1 / morph.steps;
+    p.radius += (morph.radius - p.radius) * t;
+    p.vy += (morph.vy - p.vy) * t;
+    p.swayAmplitude += (morph.swayAmplitude - p.swayAmplitude) * t;
+    morph.steps--;
+    if (morph.steps <= 0) p.morph = undefined;
+  }
+
+  if (p.fade === undefined) return true;
+  p.opacity -= p.fade;
+  return p.opacity > 0;
+}
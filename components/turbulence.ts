@@ -0,0 +1,140 @@
+import { TurbulenceOptions } from '../types';
+import { RandomSource } from './random';
+
+export interface ResolvedTurbulence {
+  scale: number;
+  strength: number;
+  updraft: number;
+  evolution: number;
+}
+
+/** Settings used when `turbulence` is on without options */
+export const DEFAULT_TURBULENCE: ResolvedTurbulence = {
+  scale: 240,
+  strength: 0.6,
+  updraft: 0.5,
+  evolution: 0.15,
+};
+
+// Entries in the permutation table (the noise lattice repeats after this many cells)
+const TABLE_SIZE = 256;
+
+// Second octave: frequency and weight relative to the first
+const DETAIL_FREQUENCY = 2.1;
+const DETAIL_WEIGHT = 0.45;
+
+/** Seeded gradient-noise lattice the wind field is derived from */
+export interface TurbulenceField {
+  perm: Uint8Array; // Doubled permutation, so lookups don't need wrapping
+  gradX: Float32Array; // Unit gradient per table entry
+  gradY: Float32Array;
+}
+
+/** A sampled wind vector in px per step */
+export interface WindVector {
+  x: number;
+  y: number;
+}
+
+/** Normalize the `turbulence` prop. Returns null when turbulence is off. */
+export function resolveTurbulence(turbulence: boolean | TurbulenceOptions | undefined): ResolvedTurbulence | null {
+  if (!turbulence) return null;
+  const options = turbulence === true ? {} : turbulence;
+  return {
+    scale: Math.max(1, options.scale ?? DEFAULT_TURBULENCE.scale),
+    strength: Math.max(0, options.strength ?? DEFAULT_TURBULENCE.strength),
+    updraft: Math.max(0, options.updraft ?? DEFAULT_TURBULENCE.updraft),
+    evolution: Math.max(0, options.evolution ?? DEFAULT_TURBULENCE.evolution),
+  };
+}
+
+/** Build the noise lattice from a random source (seeded, so the eddies follow `seed`) */
+export function createTurbulenceField(rand: RandomSource): TurbulenceField {
+  const table = Array.from({ length: TABLE_SIZE }, (_, i) => i);
+  for (let i = TABLE_SIZE - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [table[i], table[j]] = [table[j], table[i]];
+  }
+
+  const perm = new Uint8Array(TABLE_SIZE * 2);
+  const gradX = new Float32Array(TABLE_SIZE);
+  const gradY = new Float32Array(TABLE_SIZE);
+  for (let i = 0; i < TABLE_SIZE; i++) {
+    perm[i] = table[i];
+    perm[i + TABLE_SIZE] = table[i];
+    const angle = rand() * Math.PI * 2;
+    gradX[i] = Math.cos(angle);
+    gradY[i] = Math.sin(angle);
+  }
+  return { perm, gradX, gradY };
+}
+
+// Gradient noise at (x, y), adding its partial derivatives times `weight` to `out`
+function addNoiseGradient(field: TurbulenceField, x: number, y: number, weight: number, out: WindVector): void {
+  const { perm, gradX, gradY } = field;
+  const cellX = Math.floor(x);
+  const cellY = Math.floor(y);
+  const fx = x - cellX;
+  const fy = y - cellY;
+  const ix = cellX & (TABLE_SIZE - 1);
+  const iy = cellY & (TABLE_SIZE - 1);
+
+  const g00 = perm[perm[ix] + iy];
+  const g10 = perm[perm[ix + 1] + iy];
+  const g01 = perm[perm[ix] + iy + 1];
+  const g11 = perm[perm[ix + 1] + iy + 1];
+
+  // Contributions of the four corners
+  const n00 = gradX[g00] * fx + gradY[g00] * fy;
+  const n10 = gradX[g10] * (fx - 1) + gradY[g10] * fy;
+  const n01 = gradX[g01] * fx + gradY[g01] * (fy - 1);
+  const n11 = gradX[g11] * (fx - 1) + gradY[g11] * (fy - 1);
+
+  // Quintic fade and its derivative
+  const u = fx * fx * fx * (fx * (fx * 6 - 15) + 10);
+  const v = fy * fy * fy * (fy * (fy * 6 - 15) + 10);
+  const du = 30 * fx * fx * (fx * (fx - 2) + 1);
+  const dv = 30 * fy * fy * (fy * (fy - 2) + 1);
+
+  const k = n00 - n10 - n01 + n11;
+  const dx = gradX[g00] + u * (gradX[g10] - gradX[g00]) + v * (gradX[g01] - gradX[g00])
+    + u * v * (gradX[g00] - gradX[g10] - gradX[g01] + gradX[g11]) + du * (n10 - n00 + v * k);
+  const dy = gradY[g00] + u * (gradY[g10] - gradY[g00]) + v * (gradY[g01] - gradY[g00])
+    + u * v * (gradY[g00] - gradY[g10] - gradY[g01] + gradY[g11]) + dv * (n01 - n00 + u * k);
+
+  out.x += dx * weight;
+  out.y += dy * weight;
+}
+
+/**
+ * Sample the wind field at (x, y) into `out`: the curl of two octaves of gradient noise drifting
+ * through time. Curl noise has no sources or sinks, so flakes swirl in eddies without bunching up
+ * (`updraft` scales the vertical part). `intensity` scales the strength (gusts stir the air up).
+ */
+export function sampleTurbulence(
+  field: TurbulenceField,
+  settings: ResolvedTurbulence,
+  x: number,
+  y: number,
+  time: number, // Simulated seconds
+  intensity: number,
+  out: WindVector
+): WindVector {
+  const { scale, strength, updraft, evolution } = settings;
+  const drift = time * evolution;
+  const nx = x / scale;
+  const ny = y / scale;
+
+  // Noise gradient, accumulated in out before it is turned into the curl
+  out.x = 0;
+  out.y = 0;
+  addNoiseGradient(field, nx + drift, ny - drift * 0.6, 1, out);
+  addNoiseGradient(field, nx * DETAIL_FREQUENCY - drift * 1.7, ny * DETAIL_FREQUENCY + drift * 0.9 + 31.7, DETAIL_WEIGHT, out);
+
+  const gradientX = out.x;
+  const gradientY = out.y;
+  const magnitude = strength * intensity;
+  out.x = gradientY * magnitude;
+  out.y = -gradientX * magnitude * updraft;
+  return out;
+}
@@ -0,0 +1,36 @@
+import { QualityLevel, RendererChangeEvent, SnowfallError } from '../types';
+import { ObstacleRect } from './obstacles';
+import { PointerState } from './interaction';
+import { SpriteSheet } from './sprites';
+import { SceneOptions, SceneSetup, SceneStats, SceneViewport } from './scene';
+
+/** A sprite sheet as posted to the worker: the atlas travels as a bitmap */
+export type WorkerSpriteSheet = Omit<SpriteSheet, 'atlas'> & { atlas: ImageBitmap };
+
+/** Messages from the page to the worker, one per SnowScene call (see createWorkerScene) */
+export type WorkerRequest =
+  | { type: 'init'; canvases: OffscreenCanvas[]; setup: SceneSetup; options: SceneOptions; viewport: SceneViewport }
+  | { type: 'options'; options: SceneOptions }
+  | { type: 'resize'; viewport: SceneViewport }
+  | { type: 'pointer'; pointer: PointerState }
+  | { type: 'obstacles'; obstacles: ObstacleRect[] | null }
+  | { type: 'sprites'; sheet: WorkerSpriteSheet | null }
+  | { type: 'wind'; value: number | null }
+  | { type: 'start' }
+  | { type: 'stop' }
+  | { type: 'step'; dtMs: number }
+  | { type: 'draw' }
+  | { type: 'reset' }
+  | { type: 'burst'; count: number }
+  | { type: 'clear-accumulation' };
+
+/** Messages from the worker to the page */
+export type WorkerEvent =
+  | { type: 'log'; level: 'info' | 'warn'; message: string }
+  | { type: 'error'; error: SnowfallError }
+  | { type: 'renderer'; event: RendererChangeEvent }
+  | { type: 'quality'; level: QualityLevel }
+  // A stats window completed
+  | { type: 'stats'; stats: SceneStats }
+  // The scene changed outside the loop (set up, stepped, reset, burst), so the page's copy of the stats is stale
+  | { type: 'snapshot'; stats: SceneStats };
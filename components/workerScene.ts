@@ -0,0 +1,104 @@
+import SnowWorker from './snowWorker?worker&inline';
+import { SpriteSheet } from './sprites';
+import { SceneEvents, SceneOptions, SceneSetup, SceneStats, SceneViewport, SnowScene, emptyStats } from './scene';
+import { WorkerEvent, WorkerRequest } from './workerProtocol';
+
+/** Whether the canvases can be handed to a worker (OffscreenCanvas and transferControlToOffscreen) */
+export function canRenderInWorker(): boolean {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof HTMLCanvasElement !== 'undefined'
+    && 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+}
+
+/**
+ * Run a scene in a web worker: the canvases are transferred to it and every SnowScene call is
+ * posted as a message. The canvases can't be drawn on from the page afterwards, so a scene needs
+ * fresh ones. Returns null if the worker can't be started.
+ */
+export function createWorkerScene(
+  canvases: HTMLCanvasElement[],
+  setup: SceneSetup,
+  options: SceneOptions,
+  viewport: SceneViewport,
+  events: SceneEvents
+): SnowScene | null {
+  let worker: Worker;
+  try {
+    worker = new SnowWorker({ name: 'snowfall' });
+  } catch (error) {
+    events.diagnostics.warn(`Could not start the worker: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+
+  const post = (request: WorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+
+  // Last stats the worker sent: getStats() is synchronous, the worker a message away
+  let latest: SceneStats = emptyStats(setup.layers, options.qualityLevel, true);
+  // Sheets are converted to bitmaps asynchronously; only the latest one is posted
+  let spriteVersion = 0;
+
+  worker.addEventListener('message', ({ data }: MessageEvent<WorkerEvent>) => {
+    switch (data.type) {
+      case 'log':
+        events.diagnostics[data.level](data.message);
+        break;
+      case 'error':
+        events.diagnostics.error(data.error);
+        break;
+      case 'renderer':
+        events.onRendererChange(data.event);
+        break;
+      case 'quality':
+        events.onQualityChange(data.level);
+        break;
+      case 'stats':
+        latest = data.stats;
+        events.onStats(data.stats);
+        break;
+      case 'snapshot':
+        latest = data.stats;
+        break;
+    }
+  });
+  worker.addEventListener('error', (event) => {
+    events.diagnostics.error({ code: 'worker', message: `Worker failed: ${event.message}` });
+    // The canvases belong to the worker now, so the page can't take over drawing on them
+    events.onFailed?.();
+  });
+
+  const offscreen = canvases.map((canvas) => canvas.transferControlToOffscreen());
+  post({ type: 'init', canvases: offscreen, setup, options, viewport }, offscreen);
+
+  return {
+    setOptions: (next) => post({ type: 'options', options: next }),
+    resize: (next) => post({ type: 'resize', viewport: next }),
+    setPointer: (pointer) => post({ type: 'pointer', pointer: { ...pointer } }),
+    setObstacles: (obstacles) => post({ type: 'obstacles', obstacles }),
+    setSprites: (sheet: SpriteSheet | null) => {
+      const version = ++spriteVersion;
+      if (!sheet) {
+        post({ type: 'sprites', sheet: null });
+        return;
+      }
+      createImageBitmap(sheet.atlas).then((atlas) => {
+        if (version === spriteVersion) post({ type: 'sprites', sheet: { ...sheet, atlas } }, [atlas]);
+      }, (error) => {
+        events.diagnostics.error({ code: 'sprite-load', message: `Could not hand the sprites to the worker: ${error}` });
+      });
+    },
+    setWind: (value) => post({ type: 'wind', value }),
+    start: () => post({ type: 'start' }),
+    stop: () => post({ type: 'stop' }),
+    step: (dtMs) => post({ type: 'step', dtMs }),
+    draw: () => post({ type: 'draw' }),
+    reset: () => post({ type: 'reset' }),
+    burst: (count) => post({ type: 'burst', count }),
+    clearAccumulation: () => post({ type: 'clear-accumulation' }),
+    stats: () => latest,
+    destroy: () => {
+      spriteVersion++;
+      worker.terminate();
+    },
+  };
+}
@@ -7,10 +7,13 @@ declare var jest: any;
 global.requestAnimationFrame = (callback: any) => setTimeout(callback, 0);
 global.cancelAnimationFrame = (id: any) => clearTimeout(id);
 
-// Mock HTML5 Canvas API since JSDOM does not implement drawing context
-Object.defineProperty(HTMLCanvasElement.prototype, 'getContext', {
-  value: () => ({
+// Mock HTML5 Canvas API since JSDOM does not implement drawing context.
+// Only the 2D context is mocked; WebGL reports as unavailable so the Canvas fallback is exercised.
+// (Server rendering tests run without a DOM.)
+if (typeof HTMLCanvasElement !== 'undefined') Object.defineProperty(HTMLCanvasElement.prototype, 'getContext', {
+  value: (type: string) => type !== '2d' ? null : ({
     clearRect: jest.fn(),
+    setTransform: jest.fn(),
     fillStyle: '',
     globalAlpha: 1,
     save: jest.fn(),
@@ -20,8 +23,15 @@ Object.defineProperty(HTMLCanvasElement.prototype, 'getContext', {
     beginPath: jest.fn(),
     moveTo: jest.fn(),
     lineTo: jest.fn(),
+    quadraticCurveTo: jest.fn(),
     closePath: jest.fn(),
     arc: jest.fn(),
     fill: jest.fn(),
+    stroke: jest.fn(),
+    drawImage: jest.fn(),
+    getImageData: jest.fn(),
+    strokeStyle: '',
+    lineWidth: 1,
+    lineCap: 'butt',
   }),
-});
\ No newline at end of file
+});
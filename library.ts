@@ -1,5 +1,7 @@
 import Snowfall from './components/Snowfall';
-export type { SnowfallProps } from './types';
+export type { SnowfallProps, SnowfallHandle, SnowfallStats, SnowEngine, SnowEngineOptions, AccumulationOptions, ObstacleTarget, InteractionOptions, TurbulenceOptions, LayerConfig, PaletteOptions, FlakeShape, Precipitation, SpriteOptions, WeatherPreset, GustOptions, PresetName, QualityLevel, SnowfallLogger, SnowfallError, SnowfallErrorCode, RendererChangeEvent } from './types';
+export { PRESETS, registerPreset } from './components/presets';
+export { createSnowEngine } from './components/engine';
 
 export { Snowfall };
 export default Snowfall;
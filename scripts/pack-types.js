@@ -18,15 +18,20 @@ const dropSourceMap = (content) => content.replace(/\n?\/\/# sourceMappingURL=.*
 const rawTypes = normalize(fs.readFileSync(typesPath, 'utf8'));
 const body = dropSourceMap(rawTypes.replace(/^import[^\n]*\n/, ''));
 const hasParticle = /export interface\s+Particle/.test(body);
-const typeExports = hasParticle ? 'SnowfallProps, Particle' : 'SnowfallProps';
+const typeExports = ['SnowfallProps', 'SnowfallHandle', 'SnowfallStats', 'SnowEngine', 'SnowEngineOptions', 'AccumulationOptions', 'ObstacleTarget', 'InteractionOptions', 'TurbulenceOptions', 'LayerConfig', 'PaletteOptions', 'FlakeShape', 'Precipitation', 'SpriteOptions', 'WeatherPreset', 'GustOptions', 'PresetName', 'QualityLevel', 'SnowfallLogger', 'SnowfallError', 'SnowfallErrorCode', 'RendererChangeEvent']
+  .concat(hasParticle ? ['Particle'] : [])
+  .join(', ');
 
-const declaration = `import type { CSSProperties, FC } from 'react';
+const declaration = `import type { CSSProperties, ForwardRefExoticComponent, RefAttributes, RefObject } from 'react';
 
 ${body}
 
-declare const Snowfall: FC<SnowfallProps>;
+declare const Snowfall: ForwardRefExoticComponent<SnowfallProps & RefAttributes<SnowfallHandle>>;
+declare const PRESETS: Record<string, WeatherPreset>;
+declare function registerPreset(name: string, preset: WeatherPreset): void;
+declare function createSnowEngine(container: HTMLElement, options?: SnowEngineOptions): SnowEngine;
 
-export { Snowfall };
+export { Snowfall, PRESETS, registerPreset, createSnowEngine };
 export type { ${typeExports} };
 export default Snowfall;
 `;
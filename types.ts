@@ -1,33 +1,282 @@
-import type { CSSProperties } from 'react';
+import type { CSSProperties, RefObject } from 'react';
+
+/** An element flakes settle on: a CSS selector, a React ref or the element itself */
+export type ObstacleTarget = string | Element | RefObject<Element | null>;
+
+export interface AccumulationOptions {
+  /** Maximum depth of the settled snow in pixels. Default: 80 */
+  maxDepth?: number;
+  /** Maximum depth of the snow piled on obstacles in pixels. Default: 16 */
+  maxObstacleDepth?: number;
+  /** How fast the settled snow (ground and obstacles) melts, in pixels per second. Default: 0 (never melts) */
+  meltRate?: number;
+}
+
+export interface InteractionOptions {
+  /** How flakes react to the pointer: pushed away, pulled in, or swirled around it. Default: 'repel' */
+  mode?: 'repel' | 'attract' | 'vortex';
+  /** Radius of influence around the pointer in pixels. Default: 120 */
+  radius?: number;
+  /** Force multiplier. Default: 1 */
+  strength?: number;
+}
+
+export interface TurbulenceOptions {
+  /** Size of the eddies in pixels. Default: 240 */
+  scale?: number;
+  /** Speed of the swirling air, in the units of `wind`. Default: 0.6 */
+  strength?: number;
+  /** Vertical part of the eddies relative to the horizontal (0 = level swirls, 1 = round eddies with updrafts). Default: 0.5 */
+  updraft?: number;
+  /** How fast the eddies drift and change shape. Default: 0.15 */
+  evolution?: number;
+}
+
+export interface PaletteOptions {
+  /** CSS colors flakes are tinted with */
+  colors: string[];
+  /** 'pick' gives each flake one of the colors, 'gradient' a color sampled along a gradient through them. Default: 'pick' */
+  mode?: 'pick' | 'gradient';
+}
+
+/** How flakes of non-'dot' layers are drawn (see `SnowfallProps.shape`) */
+export type FlakeShape = 'irregular' | 'circle' | 'crystal';
+
+/** An image flakes can be drawn with (see `SnowfallProps.sprites`) */
+export interface SpriteOptions {
+  /** Image URL (loaded with CORS, so the WebGL renderer can use it) or an image element */
+  src: string | HTMLImageElement;
+  /** Region of the image to use, in image pixels, for sprites packed into a texture atlas. Default: the whole image */
+  frame?: { x: number; y: number; width: number; height: number };
+  /** How often the sprite is picked, relative to the other sprites. Default: 1 */
+  weight?: number;
+  /** Size multiplier. Default: 1 */
+  scale?: number;
+}
+
+/** What falls (see `SnowfallProps.precipitation`) */
+export type Precipitation = 'snow' | 'rain' | 'mixed';
+
+/** Random wind gusts on top of the base wind (see `WeatherPreset.gusts`) */
+export interface GustOptions {
+  /** Average number of gusts per minute. Default: 1.8 */
+  frequency?: number;
+  /** Range of the gust strength, as a multiple of the base wind. Default: [0.5, 2] */
+  strength?: [number, number];
+  /** Range of the gust duration in seconds. Default: [2, 5] */
+  duration?: [number, number];
+}
+
+/** A named weather (see `SnowfallProps.preset`) */
+export interface WeatherPreset {
+  /** Prop values the preset sets. Props passed explicitly override them. */
+  props?: Omit<SnowfallProps, 'preset' | 'className' | 'style'>;
+  /** Gusts of the preset's wind. Default: the default gusts */
+  gusts?: GustOptions;
+}
+
+/** Rendering quality level (see `SnowfallProps.quality`) */
+export type QualityLevel = 'low' | 'medium' | 'high';
+
+/** Receives the component's diagnostic messages (see `SnowfallProps.logger`). Leave a method out to drop that level. */
+export interface SnowfallLogger {
+  info?(message: string): void;
+  warn?(message: string): void;
+  error?(message: string): void;
+}
+
+/** What went wrong (see `SnowfallError`) */
+export type SnowfallErrorCode = 'webgl-init' | 'shader-compile' | 'program-link' | 'context-lost' | 'sprite-load' | 'worker';
+
+/** A failure reported through `SnowfallProps.onError`. The component recovers from all of them. */
+export interface SnowfallError {
+  code: SnowfallErrorCode;
+  message: string;
+  /** Name of the layer affected, for failures of a single layer's canvas */
+  layer?: string;
+}
+
+/** A change of the renderer drawing the layers (see `SnowfallProps.onRendererChange`) */
+export interface RendererChangeEvent {
+  /** 'webgl' while every layer is drawn with WebGL, otherwise 'canvas' */
+  renderer: 'webgl' | 'canvas';
+  /** Renderer drawing each layer, back to front */
+  layers: ('webgl' | 'canvas')[];
+  /** Whether WebGL was asked for but Canvas 2D draws some or all layers */
+  fallback: boolean;
+  /**
+   * 'init' once the canvases are set up, the context events when a layer's WebGL context is lost or restored,
+   * 'worker-error' once the page draws instead of a worker that failed
+   */
+  reason: 'init' | 'context-lost' | 'context-restored' | 'worker-error';
+}
+
+/** Names of the built-in presets; more can be added with `registerPreset` */
+export type PresetName = 'flurry' | 'blizzard' | 'sleet' | 'graupel';
 
 export interface SnowfallProps {
+  /** Weather preset: a registered name or a preset object. Props passed explicitly override its values. Default: none */
+  preset?: PresetName | (string & {}) | WeatherPreset;
   /** Base number of snowflakes to render (distributed across layers). Default: 400 */
   density?: number;
   /** Base vertical speed of snowflakes. Default: 1.2 */
   speed?: number;
   /** Horizontal wind speed. Default: 0.2 */
   wind?: number;
-  /** Color of the snowflakes (hex or rgba). Default: #ffffff */
+  /** Color of the snowflakes and settled snow, any CSS color. Its alpha is multiplied into the opacity. Default: #ffffff */
   color?: string;
+  /** Colors flakes are tinted with instead of `color` (settled snow keeps `color`). Default: none */
+  palette?: string[] | PaletteOptions;
+  /** What falls: snowflakes, rain drops drawn as streaks that splash on the ground, or a mix of both. Default: 'snow' */
+  precipitation?: Precipitation;
+  /** Flake shape of non-'dot' layers: irregular polygons, round discs or seeded six-fold crystals. Default: 'irregular' */
+  shape?: FlakeShape;
+  /** Images flakes of non-'dot' layers are drawn with instead of `shape`, once loaded. Compared by value, so an inline array only reloads the images when a sprite changes. Default: none */
+  sprites?: (string | SpriteOptions)[];
   /** Minimum radius of a snowflake. Default: 0.2 */
   minRadius?: number;
   /** Maximum radius of a snowflake. Default: 2.3 */
   maxRadius?: number;
   /** Variance in snowflake shape (0 = perfect circle, 1 = very jagged). Default: 1.6 */
   roughness?: number;
+  /** Time in ms over which changes to `density`, `minRadius`, `maxRadius` and `roughness` are eased in: flakes are added from the top or fade out, and existing flakes grow, shrink or reshape, instead of the field being regenerated. Default: 1000 */
+  transitionDuration?: number;
   /** Global opacity multiplier (0 to 1). Default: 1.0 */
   opacity?: number;
   /** Custom CSS classes for the container element */
   className?: string;
   /** Inline styles merged with the default container styles */
   style?: CSSProperties;
-  /** Renderer to use: 'auto' (default), 'webgl', or 'canvas' */
-  renderer?: 'auto' | 'webgl' | 'canvas';
+  /** Renderer to use: 'auto' (default), 'webgl', 'webgl-single' (one WebGL context, depth of field in the shader), 'canvas', or 'worker' (simulate and draw in a web worker on transferred canvases; like 'auto' where OffscreenCanvas is unavailable or the worker fails) */
+  renderer?: 'auto' | 'webgl' | 'webgl-single' | 'canvas' | 'worker';
+  /** Seed for the random generator. The same seed, size and props produce the same particle field and wind history. Default: unseeded (Math.random) */
+  seed?: number | string;
+  /** Let mid and front flakes settle into a snowbank along the bottom edge. Pass an object to tune depth and melting. Default: false */
+  accumulate?: boolean | AccumulationOptions;
+  /** Elements (selectors, refs or elements) flakes of settling layers (mid and front by default) settle on instead of passing through. Compared element by element, so an inline array doesn't re-subscribe on every render. */
+  obstacles?: ObstacleTarget[];
+  /** Let the air swirl in eddies that vary across the screen, on top of the wind and its gusts. Pass an object to tune the eddies. Default: false */
+  turbulence?: boolean | TurbulenceOptions;
+  /** Let flakes react to the mouse or touch pointer. Clicks still pass through to the page. Default: off */
+  interaction?: InteractionOptions;
+  /** Stop animating while the container is scrolled out of view. The loop always stops while the page is hidden. Default: true */
+  pauseWhenOffscreen?: boolean;
+  /** Upper limit for the drawing frame rate. The simulation speed is unaffected. Default: display refresh rate */
+  maxFps?: number;
+  /** Device pixels per CSS pixel for the canvases. 'auto' follows window.devicePixelRatio. Default: 'auto' */
+  pixelRatio?: number | 'auto';
+  /** Upper limit for the pixel ratio, to cap the fill-rate cost on very dense screens. Default: 2 */
+  maxPixelRatio?: number;
+  /** Rendering quality. Lower levels draw fewer flakes, simpler shapes, less blur and fewer pixels. 'auto' measures frame times and steps the level down while frames miss their budget and back up when there is headroom. Default: 'auto' */
+  quality?: 'auto' | QualityLevel;
+  /** Called with the quality level in effect, once it is known and whenever it changes */
+  onQualityChange?: (level: QualityLevel) => void;
+  /** Called about once a second while the animation runs, with the same snapshot `getStats()` returns */
+  onStats?: (stats: SnowfallStats) => void;
+  /** Called when the renderer is set up and whenever a layer switches between WebGL and Canvas 2D */
+  onRendererChange?: (event: RendererChangeEvent) => void;
+  /** Called for failures the component recovers from: WebGL setup, lost WebGL contexts, sprites that don't load */
+  onError?: (error: SnowfallError) => void;
+  /** Where diagnostic messages go. Default: console */
+  logger?: SnowfallLogger;
+  /** Show a small overlay with the frame rate, renderer, quality level and flake counts. Default: false */
+  debug?: boolean;
+  /** Depth layers, back to front. Each layer is drawn on its own canvas. Compared by value, so an inline array only regenerates the field when a layer changes. Default: back, mid, front and camera layers */
+  layers?: LayerConfig[];
+}
+
+/** One depth layer of the snowfall (see `SnowfallProps.layers`) */
+export interface LayerConfig {
+  /** Name used for the layer's particle count in `getStats()`. Default: `layer<index>` */
+  name?: string;
+  /** Flakes in this layer as a fraction of `density` */
+  share: number;
+  /** Fewest flakes the layer holds, however low the density. Default: 0 */
+  minCount?: number;
+  /** Radius range as multipliers: with `radiusFrom: 'range'` of `minRadius` and `maxRadius`, with 'max' both of `maxRadius`. Default: [1, 1] */
+  radius?: [number, number];
+  /** Which props the `radius` multipliers apply to. Default: 'range' */
+  radiusFrom?: 'range' | 'max';
+  /** Smallest radius in px, applied after the multipliers. Default: 0 */
+  minRadiusPx?: number;
+  /** Fall speed multiplier. Default: 1 */
+  speed?: number;
+  /** How strongly the layer follows the wind (and the pointer). Default: 1 */
+  wind?: number;
+  /** Layer opacity, multiplied with each flake's opacity and the global opacity. Default: 1 */
+  opacity?: number;
+  /** Depth-of-field blur in px. Default: 0 */
+  blur?: number;
+  /** 'dot' draws plain discs (cheap, for distant layers), 'polygon' flakes in the `shape` prop's shape (or `sprites`). Default: 'polygon' */
+  shape?: 'dot' | 'polygon';
+  /** Whether flakes settle on the ground (with `accumulate`) and on obstacles. Default: true */
+  settle?: boolean;
+}
+
+/** Snapshot of the simulation returned by `SnowfallHandle.getStats()` */
+export interface SnowfallStats {
+  /** Whether the animation is paused through the handle */
+  paused: boolean;
+  /** Whether the animation is stopped automatically (page hidden or container offscreen) */
+  suspended: boolean;
+  /** Simulated time in seconds since the wind history started */
+  time: number;
+  /** Current effective wind (base wind with oscillation and gusts applied) */
+  wind: number;
+  /** Renderer currently drawing the layers */
+  renderer: 'webgl' | 'canvas';
+  /** Whether WebGL was asked for (explicitly or by 'auto') but failed to initialize, so Canvas 2D draws instead */
+  fallback: boolean;
+  /** Whether the simulation and drawing run in a web worker (`renderer: 'worker'`) */
+  worker: boolean;
+  /** Frames drawn per second, averaged over the last second the loop ran (0 before that) */
+  fps: number;
+  /** Time spent simulating and drawing a frame in ms (on the main thread, or in the worker), averaged like `fps` */
+  frameTime: number;
+  /** Quality level in effect (see `SnowfallProps.quality`) */
+  quality: QualityLevel;
+  /** Number of live particles per layer (keyed by layer name) and in total */
+  particles: { total: number; [layer: string]: number };
+}
+
+/** Imperative controls exposed through a ref on `<Snowfall />` */
+export interface SnowfallHandle {
+  /** Freeze the animation. Particles stay where they are. */
+  pause(): void;
+  /** Continue a paused animation from where it stopped, without a time jump. */
+  resume(): void;
+  /** Advance the simulation by `dtMs` milliseconds (at most 10 seconds per call) and redraw. Works while paused. */
+  step(dtMs: number): void;
+  /** Regenerate the particle field and restart the wind history. */
+  reset(): void;
+  /** Spawn `count` extra flakes just above the viewport; they are removed once they fall out. Default: 100 */
+  burst(count?: number): void;
+  /** Remove all settled snow from the ground and obstacles (see `accumulate` and `obstacles`). */
+  clearAccumulation(): void;
+  /** Override the base wind. Pass `null` to hand control back to the `wind` prop. */
+  setWind(wind: number | null): void;
+  /** Current simulation statistics */
+  getStats(): SnowfallStats;
+}
+
+/** Options of `createSnowEngine`: the props of `<Snowfall />` other than the container's `className` and `style` */
+export type SnowEngineOptions = Omit<SnowfallProps, 'className' | 'style'>;
+
+/** A snowfall created with `createSnowEngine`, outside React */
+export interface SnowEngine extends SnowfallHandle {
+  /** Replace the options. Options left out go back to their defaults. */
+  setOptions(options: SnowEngineOptions): void;
+  /** Change the given options, keeping the others */
+  update(options: SnowEngineOptions): void;
+  /** Stop the animation and remove the canvases and every listener. The engine can't be used afterwards. */
+  destroy(): void;
 }
 
 export interface Particle {
   x: number;
   y: number;
+  prevX: number; // x at the previous simulation step (for render interpolation)
+  prevY: number; // y at the previous simulation step (for render interpolation)
   radius: number;
   opacity: number;
   vx: number; // velocity x
@@ -35,6 +284,18 @@ export interface Particle {
   wobble: number; // phase for horizontal oscillation (animates)
   wobbleSpeed: number;
   swayAmplitude: number; // How wide the flake swings side-to-side
-  shapeOffsets: { x: number; y: number }[]; // Pre-calculated offsets for irregular shape
   shapeSeed: number; // Stable random seed for WebGL shape generation
+  band: number; // Index of the layer (size/speed band) the flake was generated for
+  transient?: boolean; // One-shot flake (e.g. from a burst): removed instead of respawned when it leaves the screen
+  splash?: number; // Steps a splash droplet thrown up by a rain drop has left (splash droplets are transient)
+  fade?: number; // Opacity a retired flake loses per step until it is gone (retired flakes are transient)
+  morph?: ParticleMorph; // Size the flake is easing towards after a radius change
+}
+
+/** Target of a flake's size transition, reached after `steps` simulation steps */
+export interface ParticleMorph {
+  steps: number;
+  radius: number;
+  vy: number;
+  swayAmplitude: number;
 }